@@ -8,66 +8,458 @@ import rollupPluginTypeScript, { RollupTypescriptOptions } from "@rollup/plugin-
 
 import {
   allDepsSorted,
-  cmd,
-  cmdArg,
-  Commands,
+  defaultJobs,
   Dependencies,
+  didYouMean,
   fsMatch,
-  main,
   runTask,
+  setBuildStateDir,
+  startBuildReport,
+  TaskGraph,
 } from "./src/build-tools/build-tools";
-import { run, runCapture } from "./src/lib/process";
+import { ComponentSize, formatSize, formatTable } from "./src/build-tools/build-report";
+import {
+  budgetExceeded,
+  bundleStats,
+  formatBudgetUsage,
+  formatBundleBreakdown,
+  readBundleStats,
+  SizeBudgetUsage,
+} from "./src/build-tools/bundle-analysis";
+import { commandVersion, hashPaths, npmPackageVersion } from "./src/build-tools/build-cache";
+import { cmd, command, Commands, main, UsageError } from "./src/build-tools/cli";
+import {
+  componentIdEnvVarKey,
+  componentIdFromURN,
+  dashToPascal,
+  generateCfgModule,
+} from "./src/build-tools/component-cfg";
+import {
+  addStubImports,
+  commonTemplateDir,
+  isValidComponentName,
+  loadComponentTemplates,
+  templateDescriptor,
+} from "./src/build-tools/component-templates";
+import {
+  componentBuildConfigPath,
+  componentizeArgs,
+  loadComponentBuildConfig,
+  rollupConfigInputs,
+  rollupConfigPlugins,
+} from "./src/build-tools/component-build-config";
+import { renameComponentReferences, SourceKind } from "./src/build-tools/component-refactor";
+import { DependencyGraph, GraphFormat, graphFormats } from "./src/build-tools/dependency-graph";
+import { DeployState } from "./src/build-tools/deploy-state";
+import { checkRpcDependencies, componentMainWit, inferRpcDependencies } from "./src/build-tools/rpc-dependencies";
+import {
+  defaultEnvironmentName,
+  DeployEnvironment,
+  deployEnvironment,
+  deployedComponentName,
+  environmentEnvVar,
+  loadProject,
+  packageClosure,
+  componentSizeBudget,
+  projectDependencies,
+  saveProjectComponents,
+} from "./src/build-tools/project";
+import { isInside, PackageScope, packageScopePlugin } from "./src/build-tools/package-scope";
+import { generateTestClientModule } from "./src/build-tools/test-client";
+import { formatTraceTrees, parseTraceSpans, traceTrees } from "./src/build-tools/traces";
+import { watch } from "./src/build-tools/watch";
+import { parseWitInterfacesFile, parseWitWorldFile, stubImport } from "./src/build-tools/wit";
+import { ProcessError, run, runCapture, runOutput } from "./src/lib/process";
+
+const componentNameArg = { name: "component-name", description: "name of the component" } as const;
+
+const jobsOption = {
+  type: "number",
+  short: "j",
+  valueName: "n",
+  min: 1,
+  integer: true,
+  default: defaultJobs,
+  description: "maximum number of parallel tasks",
+} as const;
+
+const workerNameArg = { name: "worker-name", description: "name of the worker" } as const;
+
+const envVarOption = {
+  type: "strings",
+  valueName: "key=value",
+  description: "additional environment variable for the worker",
+} as const;
+
+const project = loadProject();
+
+const componentTemplates = loadComponentTemplates(project.componentTemplatesDir);
+
+const envOption = {
+  type: "string",
+  valueName: "name",
+  description: "environment to use from golem-project.json (default: the one defined by deploy)",
+  choices: [defaultEnvironmentName, ...Object.keys(project.environments)],
+} as const;
+
+const dryRunOption = { type: "boolean", description: "only show what would be deployed" } as const;
 
 const commands: Commands = {
   fmt: cmd(prettierWrite, "format using prettier"),
   lint: cmd(() => eslint(false), "lint project using eslint"),
   fix: cmd(fix, "format, lint and fix project using prettier and eslint"),
-  build: cmd(build, "build all components"),
-  updateRpcStubs: cmd(updateRpcStubs, "update stubs based on componentDependencies"),
-  generateNewComponent: cmdArg(
-    generateNewComponents,
-    "generates new component from template, expects <component-name>",
-  ),
-  deploy: cmd(deploy, "deploy (create or update) all components"),
-  deployComponent: cmdArg(
-    deployComponentCmd,
-    "deploy (create or update) the specified component, expects <component-name>",
-  ),
-  test: cmd(test, "run tests"),
+  build: command({
+    description: "build all components",
+    options: {
+      component: {
+        type: "strings",
+        valueName: "component-name",
+        description: "build only the specified component (and the stubs it depends on)",
+      },
+      jobs: jobsOption,
+      report: {
+        type: "string",
+        valueName: "path",
+        description: "write the build report (tasks and component sizes) as JSON, e.g. out/build-report.json",
+      },
+    },
+    run: async (_, options) => build(checkComponentNames(options.component), options.jobs, options.report),
+  }),
+  analyze: command({
+    description: "show the bundle composition and WASM sizes of the built components, compared to their size budgets",
+    options: {
+      component: {
+        type: "strings",
+        valueName: "component-name",
+        description: "analyze only the specified component",
+      },
+      modules: {
+        type: "number",
+        valueName: "n",
+        min: 1,
+        integer: true,
+        default: 10,
+        description: "number of largest modules to show",
+      },
+    },
+    run: async (_, options) => analyze(checkComponentNames(options.component), options.modules),
+  }),
+  updateRpcStubs: command({
+    description: "update stubs based on component dependencies in golem-project.json",
+    options: { jobs: jobsOption },
+    run: async (_, options) => updateRpcStubs(options.jobs),
+  }),
+  checkRpcDeps: cmd(checkRpcDeps, "check component dependencies in golem-project.json against the WIT stub imports"),
+  syncRpcDeps: cmd(syncRpcDeps, "update component dependencies in golem-project.json based on the WIT stub imports"),
+  generateNewComponent: command({
+    description: "generates new component from template",
+    args: [{ ...componentNameArg, optional: true }],
+    options: {
+      template: {
+        type: "string",
+        short: "t",
+        valueName: "name",
+        default: "counter",
+        description: "template to use",
+        choices: componentTemplates.map((template) => template.name),
+      },
+      "depends-on": {
+        type: "strings",
+        valueName: "component-name",
+        description: "RPC dependency of the new component, the stub import is added to its main.wit",
+      },
+      "list-templates": { type: "boolean", description: "list the available templates" },
+    },
+    run: async (args, options) => {
+      if (options["list-templates"]) {
+        return listTemplates();
+      }
+      if (args["component-name"] === undefined) {
+        throw new UsageError("Missing component name");
+      }
+      return generateNewComponent(args["component-name"], options.template, checkComponentNames(options["depends-on"]));
+    },
+  }),
+  removeComponent: command({
+    description: "removes a component, which is not used by other components, together with its outputs",
+    args: [componentNameArg],
+    run: async (args) => removeComponent(checkComponentName(args["component-name"])),
+  }),
+  renameComponent: command({
+    description: "renames a component, updating its WIT package, TS identifiers and dependants",
+    args: [componentNameArg, { name: "new-component-name", description: "new name of the component" }],
+    run: async (args) => renameComponent(checkComponentName(args["component-name"]), args["new-component-name"]),
+  }),
+  dev: command({
+    description: "watch for changes and rebuild the affected components",
+    options: {
+      deploy: { type: "boolean", description: "deploy the rebuilt components after every successful build" },
+      env: envOption,
+      jobs: jobsOption,
+    },
+    run: async (_, options) => dev(options.deploy, environment(options.env), options.jobs),
+  }),
+  deploy: command({
+    description: "deploy (create or update) the changed components in dependency order",
+    options: { env: envOption, "dry-run": dryRunOption },
+    run: async (_, options) => deploy(environment(options.env), options["dry-run"]),
+  }),
+  deployComponent: command({
+    description: "deploy (create or update) the specified component if changed",
+    args: [componentNameArg],
+    options: { env: envOption, "dry-run": dryRunOption },
+    run: async (args, options) =>
+      deployComponent(environment(options.env), checkComponentName(args["component-name"]), options["dry-run"]),
+  }),
+  addWorker: command({
+    description: "add a worker with the component IDs required by its RPC dependencies in the environment",
+    args: [componentNameArg, workerNameArg],
+    options: { env: envOption, "env-var": envVarOption },
+    run: async (args, options) =>
+      addWorker(
+        environment(options.env),
+        checkComponentName(args["component-name"]),
+        args["worker-name"],
+        parseEnvVars(options["env-var"]),
+      ),
+  }),
+  addWorkers: command({
+    description: "add a worker with the same name for every component, so they can call each other using RPC",
+    args: [workerNameArg],
+    options: { env: envOption, "env-var": envVarOption },
+    run: async (args, options) =>
+      addWorkers(environment(options.env), args["worker-name"], parseEnvVars(options["env-var"])),
+  }),
+  deps: command({
+    description: "prints the component dependency graph",
+    args: [{ name: "format", description: "output format (default: tree)", optional: true, choices: graphFormats }],
+    run: async (args) => deps(args.format ?? "tree"),
+  }),
+  test: command({
+    description: "run tests",
+    options: { env: envOption },
+    run: async (_, options) => test(environment(options.env)),
+  }),
+  traces: command({
+    description: "show the call trees of traced invocations, from the worker logs of the local Golem or saved output",
+    options: {
+      env: envOption,
+      file: {
+        type: "string",
+        valueName: "path",
+        description: "read the trace-span entries from saved worker output, e.g. of golem-cli worker connect",
+      },
+      worker: {
+        type: "string",
+        valueName: "worker-name",
+        description: "show only the traces with spans of workers with the specified name",
+      },
+      trace: { type: "string", valueName: "trace-id", description: "show only the specified trace" },
+    },
+    run: async (_, options) => traces(environment(options.env), options.file, options.worker, options.trace),
+  }),
   clean: cmd(clean, "clean outputs and generated code"),
 };
 
-const pckNs = "golem";
-const outDir = "out";
-const componentsDir = path.join("src", "components");
+const pckNs = project.namespace;
+const outDir = project.outDir;
+const componentsDir = project.componentsDir;
 const libDir = path.join("src", "lib");
+const libCfg = path.join(libDir, "cfg.ts");
 const generatedDir = "generated";
-const componentTemplateDir = path.join("component-template", "component");
+const testGeneratedDir = path.join("test", generatedDir);
+const testClientLib = path.join("src", "testing", "golem-client.ts");
+// Generators of the cfg modules and the test clients, changing them regenerates the generated modules
+const cfgModuleGenerator = path.join("src", "build-tools", "component-cfg.ts");
+const testClientGenerator = path.join("src", "build-tools", "test-client.ts");
 
-// Defines worker to worker RPC dependencies
-const componentDependencies: Dependencies = {
-  "component-one": ["component-two", "component-three"],
-  "component-two": ["component-three"],
-};
+// golem-cli is expected to finish in minutes, so e.g. an unreachable cluster fails the command instead of blocking it
+const golemCliTimeout = 10 * 60 * 1000;
 
-const compNames: string[] = fs
-  .readdirSync(componentsDir, { withFileTypes: true })
-  .filter((entry) => entry.isDirectory())
-  .map((entry) => entry.name);
+setBuildStateDir(outDir);
 
-async function build() {
-  for (const compName of compNames) {
-    await buildComponent(compName);
+const deployStates = new Map<string, DeployState>();
+
+// Deploy state of the environment, the local Golem does not persist the deployed components, so neither is their
+// deploy state
+function deployState(environment: DeployEnvironment): DeployState {
+  let state = deployStates.get(environment.name);
+  if (state === undefined) {
+    state = new DeployState(
+      environment.local ? undefined : path.join(outDir, "deploy-state", `${environment.name}.json`),
+      environment.local ? "local" : `profile:${environment.profile ?? "default"}`,
+    );
+    deployStates.set(environment.name, state);
+  }
+  return state;
+}
+
+// Worker to worker RPC dependencies, as defined in the project manifest
+const componentDependencies: Dependencies = projectDependencies(project);
+
+const dependencyGraph = new DependencyGraph(Object.keys(project.components), componentDependencies);
+
+// Component names in topological order, dependencies are preceding their dependants
+const compNames: string[] = dependencyGraph.topologicalOrder();
+
+async function build(onlyCompNames: string[] = [], jobs?: number, reportPath?: string) {
+  checkRpcDepsBeforeBuild();
+
+  const report = startBuildReport();
+  const graph = new TaskGraph();
+  const builtCompNames = compNames.filter((compName) => onlyCompNames.length == 0 || onlyCompNames.includes(compName));
+  for (const compName of builtCompNames) {
+    addBuildComponentTasks(graph, compName);
+  }
+
+  let success = false;
+  try {
+    await graph.run(jobs);
+    success = true;
+  } finally {
+    const components = componentSizes(builtCompNames);
+    console.log(`\n${report.formatSummary(components)}`);
+    if (reportPath !== undefined) {
+      report.write(reportPath, success, components);
+      console.log(`Build report written to ${reportPath}`);
+    }
+  }
+}
+
+// Sizes of the final component WASMs, which are already built
+function componentSizes(compNames: string[]): ComponentSize[] {
+  return compNames
+    .map((compName) => ({ component: compName, wasm: path.join(outDir, "components", `${compName}.wasm`) }))
+    .filter(({ wasm }) => fs.existsSync(wasm))
+    .map(({ component, wasm }) => ({ component, wasm, size: fs.statSync(wasm).size }));
+}
+
+// Stubs imported without declared dependency cannot be composed, so they are failing the build, while unused
+// dependencies are only reported as warnings, as they are expected between updateRpcStubs and adding the imports.
+function checkRpcDepsBeforeBuild() {
+  const issues = checkRpcDependencies(project);
+  for (const issue of issues.filter((issue) => issue.kind === "unused")) {
+    console.warn(`Warning: ${issue.message}`);
+  }
+
+  const errors = issues.filter((issue) => issue.kind === "undeclared");
+  if (errors.length > 0) {
+    throw new Error(
+      `Undeclared RPC dependencies, use syncRpcDeps or update ${project.manifestPath}:\n${errors.map((issue) => `  - ${issue.message}`).join("\n")}`,
+    );
   }
 }
 
-async function buildComponent(compName: string) {
-  console.log(`Build component: ${compName}`);
+function addBuildComponentTasks(graph: TaskGraph, compName: string, bindingDependsOn: string[] = []) {
+  const deps = componentDependencies[compName] ?? [];
+  for (const dep of deps) {
+    addBuildStubComponentTask(graph, dep);
+  }
+
+  graph.add(`generateBinding:${compName}`, bindingDependsOn, () => generateBinding(compName));
+  graph.add(`generateCfg:${compName}`, [], () => generateCfg(compName));
+  graph.add(`generateTestClient:${compName}`, [], () => generateTestClient(compName));
+  graph.add(`rollupComponent:${compName}`, [`generateBinding:${compName}`, `generateCfg:${compName}`], () =>
+    rollupComponent(compName),
+  );
+  graph.add(`componentize:${compName}`, [`rollupComponent:${compName}`], () => componentize(compName));
+  graph.add(
+    `stubCompose:${compName}`,
+    [`componentize:${compName}`, ...deps.map((dep) => `buildStubComponent:${dep}`)],
+    () => stubCompose(compName),
+  );
+  if (project.components[compName]?.sizeBudget !== undefined) {
+    graph.add(`checkSizeBudget:${compName}`, [`stubCompose:${compName}`], () => checkSizeBudget(compName));
+  }
+}
 
-  await generateBinding(compName);
-  await rollupComponent(compName);
-  await componentize(compName);
-  await stubCompose(compName);
+function addBuildStubComponentTask(graph: TaskGraph, compName: string) {
+  const id = `buildStubComponent:${compName}`;
+  if (!graph.has(id)) {
+    graph.add(id, [], () => buildStubComponent(compName));
+  }
+}
+
+async function dev(deployChanged: boolean, environment: DeployEnvironment, jobs: number) {
+  await watch({
+    paths: [
+      componentsDir,
+      libDir,
+      ...Object.values(project.packages)
+        .map((pck) => pck.path)
+        .filter((packagePath) => !isInside(packagePath, libDir)),
+    ],
+    onStart: () => build([], jobs),
+    ignore: (changedPath) => {
+      const compPath = path.relative(componentsDir, changedPath).split(path.sep);
+      // Generated bindings and stub dependencies are written by the build itself
+      return compPath[1] === generatedDir || (compPath[2] === "deps" && compPath[3]?.startsWith(`${pckNs}_`) === true);
+    },
+    onChange: async (changedPaths) => {
+      console.log(`Changed: ${changedPaths.join(", ")}`);
+      const changedComps = await devRebuild(changedPaths, jobs);
+      if (deployChanged) {
+        for (const compName of changedComps) {
+          await deployComponent(environment, compName);
+        }
+      }
+    },
+  });
+}
+
+// Rebuilds the components affected by the changed paths, and returns their names in dependency order.
+// When the WIT of a component is changed, then its stub is also rebuilt and added and composed to its dependants.
+async function devRebuild(changedPaths: string[], jobs: number): Promise<string[]> {
+  const changedComps = new Set<string>();
+  const changedWitComps = new Set<string>();
+
+  for (const changedPath of changedPaths) {
+    const sourcePath = path.relative(process.cwd(), changedPath);
+    if (!isInside(sourcePath, componentsDir)) {
+      // Shared sources only affect the components bundling them, or declaring their packages before the first rollup
+      for (const compName of compNames) {
+        const scope = componentPackageScope(compName);
+        const sources = bundleSources(compName) ?? [...scope.common, ...Object.values(scope.packages)];
+        if (sources.some((source) => isInside(sourcePath, source))) {
+          changedComps.add(compName);
+        }
+      }
+      continue;
+    }
+
+    const [compName, dir] = path.relative(componentsDir, changedPath).split(path.sep);
+    if (compName === undefined || project.components[compName] === undefined) continue;
+    changedComps.add(compName);
+    if (dir === "wit") {
+      changedWitComps.add(compName);
+    }
+  }
+
+  const bindingDependsOn = new Map<string, string[]>();
+  const graph = new TaskGraph();
+  for (const compName of changedWitComps) {
+    if (dependencyGraph.dependantsOf(compName).length == 0) continue;
+
+    addBuildStubComponentTask(graph, compName);
+    for (const dependant of dependencyGraph.dependantsOf(compName)) {
+      const dependsOn = bindingDependsOn.get(dependant) ?? [];
+      const id = `addStubDependency:${dependant}:${compName}`;
+      graph.add(id, [`buildStubComponent:${compName}`, ...dependsOn.slice(-1)], () =>
+        addStubDependency(dependant, compName),
+      );
+      bindingDependsOn.set(dependant, [...dependsOn, id]);
+      changedComps.add(dependant);
+    }
+  }
+
+  const rebuiltComps = compNames.filter((compName) => changedComps.has(compName));
+  for (const compName of rebuiltComps) {
+    addBuildComponentTasks(graph, compName, bindingDependsOn.get(compName));
+  }
+
+  console.log(`Rebuilding: ${rebuiltComps.join(", ")}`);
+  await graph.run(jobs);
+  return rebuiltComps;
 }
 
 async function generateBinding(compName: string) {
@@ -78,14 +470,56 @@ async function generateBinding(compName: string) {
   return runTask({
     runMessage: `Generating bindings from ${witDir} into ${bindingDir}`,
     skipMessage: "binding generation",
-    targets: [bindingDir],
+    targets: [path.join(bindingDir, `${compName}.d.ts`), path.join(bindingDir, "interfaces")],
     sources: [witDir],
+    inputs: { jco: npmPackageVersion("@golemcloud/jco") },
     run: async () => {
       return run("npx", ["jco", "stubgen", witDir, "-o", bindingDir]);
     },
   });
 }
 
+async function generateCfg(compName: string) {
+  const cfgModule = path.join(componentsDir, compName, generatedDir, "cfg.ts");
+  const deps = componentDependencies[compName] ?? [];
+
+  return runTask({
+    runMessage: `Generating cfg module ${cfgModule}`,
+    skipMessage: "cfg module generation",
+    targets: [cfgModule],
+    sources: [cfgModuleGenerator],
+    inputs: { deps, libCfg },
+    run: async () => {
+      fs.mkdirSync(path.dirname(cfgModule), { recursive: true });
+      fs.writeFileSync(cfgModule, generateCfgModule(cfgModule, libCfg, deps));
+    },
+  });
+}
+
+async function generateTestClient(compName: string) {
+  const testClientModule = path.join(testGeneratedDir, `${compName}.ts`);
+  const mainWit = componentMainWit(project, compName);
+
+  return runTask({
+    runMessage: `Generating test client ${testClientModule}`,
+    skipMessage: "test client generation",
+    targets: [testClientModule],
+    sources: [mainWit, testClientGenerator],
+    inputs: { testClientLib },
+    run: async () => {
+      const world = parseWitWorldFile(mainWit);
+      const interfaces = parseWitInterfacesFile(mainWit).filter((witInterface) =>
+        world.exports.includes(witInterface.name),
+      );
+      fs.mkdirSync(path.dirname(testClientModule), { recursive: true });
+      fs.writeFileSync(
+        testClientModule,
+        generateTestClientModule(testClientModule, testClientLib, compName, world.packageName, interfaces),
+      );
+    },
+  });
+}
+
 async function prettierWrite() {
   return run("npx", ["prettier", ".", "--write"]);
 }
@@ -106,13 +540,25 @@ async function rollupComponent(compName: string) {
   const mainTs = path.join(componentsDir, compName, "main.ts");
   const componentBuildDir = path.join(outDir, "build", compName);
   const mainJs = path.join(componentBuildDir, "main.js");
+  const bundleStatsJson = path.join(componentBuildDir, "bundle-stats.json");
   const generatedInterfacesDir = path.join(componentDir, generatedDir, "interfaces");
+  const buildConfig = await loadComponentBuildConfig(componentDir);
+  const scope = componentPackageScope(compName);
 
   return runTask({
     runMessage: `Rollup component: ${compName}`,
     skipMessage: "component rollup",
-    targets: [mainJs],
-    sources: [componentDir, libDir, "build.ts", "package.json", "tsconfig.json"],
+    targets: [mainJs, bundleStatsJson, ...(buildConfig.rollup?.sourcemap ? [`${mainJs}.map`] : [])],
+    sources: [componentDir, "tsconfig.json"],
+    // The modules of the last bundle, or the declared packages before the first rollup
+    discoveredSources: () => bundleSources(compName) ?? [...scope.common, ...Object.values(scope.packages)],
+    inputs: {
+      rollup: npmPackageVersion("rollup"),
+      typescript: npmPackageVersion("typescript"),
+      esbuild: npmPackageVersion("esbuild"),
+      config: rollupConfigInputs(buildConfig),
+      packages: scope.packages,
+    },
     run: async () => {
       const moduleRegex = /declare\s+module\s+"([^"]+)"/g;
       const externalInterfaces: string[] = fsMatch({
@@ -129,41 +575,88 @@ async function rollupComponent(compName: string) {
       );
 
       const tsOptions: RollupTypescriptOptions = {
-        include: ["src/lib/**/*.ts", componentDir + "/**/*.ts"],
+        // Only the sources in scope are compiled (and type-checked), imports of other sources are reported by the
+        // package scope plugin
+        include: [componentDir, ...scope.common, ...Object.values(scope.packages)].map((sourcePath) =>
+          sourcePath.endsWith(".ts") ? sourcePath : `${sourcePath}/**/*.ts`,
+        ),
+        exclude: [componentBuildConfigPath(componentDir)],
       };
 
       const input: InputOptions = {
         input: mainTs,
         external: externalInterfaces,
-        plugins: [rollupPluginNodeResolve(), rollupPluginTypeScript(tsOptions)],
+        plugins: [
+          packageScopePlugin(scope),
+          rollupPluginNodeResolve(),
+          rollupPluginTypeScript(tsOptions),
+          ...rollupConfigPlugins(buildConfig),
+        ],
       };
 
       const output: OutputOptions = {
         file: mainJs,
         format: "esm",
+        sourcemap: buildConfig.rollup?.sourcemap ?? false,
       };
 
       const bundle = await rollup(input);
-      await bundle.write(output);
+      const {
+        output: [chunk],
+      } = await bundle.write(output);
       await bundle.close();
+
+      const stats = bundleStats(chunk.modules, fs.statSync(mainJs).size, componentDir, libDir);
+      fs.writeFileSync(bundleStatsJson, JSON.stringify(stats, null, 2) + "\n");
     },
   });
 }
 
+function componentPackageScope(compName: string): PackageScope {
+  const packagePath = (name: string) => project.packages[name]!.path;
+  return {
+    compName,
+    componentDir: path.join(componentsDir, compName),
+    packages: Object.fromEntries(
+      packageClosure(project, project.components[compName]!.packages ?? []).map((name) => [name, packagePath(name)]),
+    ),
+    projectPackages: Object.fromEntries(Object.keys(project.packages).map((name) => [name, packagePath(name)])),
+    common: [libCfg],
+  };
+}
+
+// Source files of the last rollup of the component, outside of the component directory
+function bundleSources(compName: string): string[] | undefined {
+  const componentDir = path.join(componentsDir, compName);
+  return readBundleStats(path.join(outDir, "build", compName, "bundle-stats.json"))
+    ?.modules.map((module) => module.id)
+    .filter((id) => !isInside(id, componentDir) && fs.existsSync(id));
+}
+
 async function componentize(compName: string) {
   const componentDir = path.join(componentsDir, compName);
   const witDir = path.join(componentDir, "wit");
   const componentBuildDir = path.join(outDir, "build", compName);
   const mainJs = path.join(componentBuildDir, "main.js");
   const componentWasm = path.join(componentBuildDir, "component.wasm");
+  const buildConfig = await loadComponentBuildConfig(componentDir);
+  const preview2Adapter = buildConfig.componentize?.preview2Adapter;
+  const configArgs = componentizeArgs(buildConfig);
 
   return runTask({
     runMessage: `Componentizing component: ${compName}`,
     skipMessage: "componentize",
     targets: [componentWasm],
-    sources: [mainJs],
+    sources: [mainJs, witDir, ...(preview2Adapter !== undefined ? [preview2Adapter] : [])],
+    inputs: {
+      jco: npmPackageVersion("@golemcloud/jco"),
+      componentizeJs: npmPackageVersion("@golemcloud/componentize-js"),
+      args: configArgs,
+    },
+    cache: true,
     run: async () => {
-      await run("npx", ["jco", "componentize", "-w", witDir, "-o", componentWasm, mainJs]);
+      // The config args are variadic options, so they are passed before the other options and the source
+      await run("npx", ["jco", "componentize", ...configArgs, "-w", witDir, "-o", componentWasm, mainJs]);
     },
   });
 }
@@ -187,6 +680,8 @@ async function stubCompose(compName: string) {
     skipMessage: "stub compose",
     targets: [targetWasm],
     sources: [componentWasm, ...stubWasms],
+    inputs: { golemCli: await commandVersion("golem-cli") },
+    cache: true,
     run: async () => {
       let composeWasm = componentWasm;
       if (stubWasms.length > 0) {
@@ -196,31 +691,24 @@ async function stubCompose(compName: string) {
           i++;
           const prevComposeWasm = composeWasm;
           composeWasm = path.join(componentBuildDir, `compose-${i}-${path.basename(path.dirname(stubWasm))}.wasm`);
-          const result = await runCapture("golem-cli", [
-            "stubgen",
-            "compose",
-            "--source-wasm",
-            srcWasm,
-            "--stub-wasm",
-            stubWasm,
-            "--dest-wasm",
-            composeWasm,
-          ]);
-          if (result.code !== 0) {
-            if (result.stderr.includes("Error: no dependencies of component") && result.stderr.includes("were found")) {
+          try {
+            await runOutput(
+              "golem-cli",
+              ["stubgen", "compose", "--source-wasm", srcWasm, "--stub-wasm", stubWasm, "--dest-wasm", composeWasm],
+              { timeout: golemCliTimeout },
+            );
+          } catch (error) {
+            if (
+              error instanceof ProcessError &&
+              error.failure === "exit" &&
+              error.stderr.includes("Error: no dependencies of component") &&
+              error.stderr.includes("were found")
+            ) {
               console.log(`Skipping composing ${stubWasm}, not used`);
               composeWasm = prevComposeWasm;
               continue;
             }
-
-            if (result.stdout) {
-              process.stderr.write(result.stdout);
-            }
-            if (result.stderr) {
-              process.stderr.write(result.stderr);
-            }
-
-            throw new Error(`Command [${result.cmd}] failed with code: ${result.code}`);
+            throw error;
           }
           srcWasm = composeWasm;
         }
@@ -232,17 +720,148 @@ async function stubCompose(compName: string) {
   });
 }
 
-async function updateRpcStubs() {
+// Sizes of the bundle and of the final WASM of a built component, compared to the budgets of the component
+function sizeBudgetUsages(compName: string): SizeBudgetUsage[] {
+  const budget = componentSizeBudget(project.components[compName]!);
+  const usages: SizeBudgetUsage[] = [];
+  const bundleStats = readBundleStats(path.join(outDir, "build", compName, "bundle-stats.json"));
+  if (budget.bundle !== undefined && bundleStats !== undefined) {
+    usages.push({ name: "bundle", size: bundleStats.size, budget: budget.bundle });
+  }
+  const targetWasm = path.join(outDir, "components", `${compName}.wasm`);
+  if (budget.wasm !== undefined && fs.existsSync(targetWasm)) {
+    usages.push({ name: "wasm", size: fs.statSync(targetWasm).size, budget: budget.wasm });
+  }
+  return usages;
+}
+
+async function checkSizeBudget(compName: string) {
+  return runTask({
+    runMessage: `Checking size budget of component: ${compName}`,
+    skipMessage: "size budget check",
+    targets: [],
+    sources: [],
+    run: async () => {
+      const exceeded = sizeBudgetUsages(compName).filter(budgetExceeded);
+      if (exceeded.length > 0) {
+        throw new Error(
+          `Component ${compName} exceeds its size budget in ${project.manifestPath}, use analyze for the breakdown of the bundle:\n${exceeded.map((usage) => `  - ${formatBudgetUsage(usage)}`).join("\n")}`,
+        );
+      }
+    },
+  });
+}
+
+async function analyze(onlyCompNames: string[], largestModules: number) {
+  const analyzedCompNames = compNames.filter(
+    (compName) => onlyCompNames.length == 0 || onlyCompNames.includes(compName),
+  );
+  const lines: string[] = [];
+
+  for (const compName of analyzedCompNames) {
+    const componentBuildDir = path.join(outDir, "build", compName);
+    const bundleStatsJson = path.join(componentBuildDir, "bundle-stats.json");
+    const stats = readBundleStats(bundleStatsJson);
+    if (stats === undefined) {
+      throw new Error(`Bundle stats not found for component ${compName}, use build to build it first`);
+    }
+
+    lines.push(
+      `Component: ${compName}`,
+      "",
+      `Bundle: ${path.join(componentBuildDir, "main.js")} (${formatSize(stats.size)})`,
+    );
+    lines.push(...formatBundleBreakdown(stats, largestModules).map((line) => (line !== "" ? `  ${line}` : line)), "");
+
+    const componentWasm = path.join(componentBuildDir, "component.wasm");
+    const targetWasm = path.join(outDir, "components", `${compName}.wasm`);
+    const wasmRows = [
+      ["before stub composition", componentWasm],
+      ["after stub composition", targetWasm],
+    ]
+      .filter(([, wasm]) => fs.existsSync(wasm!))
+      .map(([stage, wasm]) => [stage!, wasm!, formatSize(fs.statSync(wasm!).size)]);
+    if (wasmRows.length > 0) {
+      lines.push(...formatTable(["WASM", "Path", "Size"], wasmRows, [false, false, true]).map((line) => `  ${line}`));
+      lines.push("");
+    }
+
+    const usages = sizeBudgetUsages(compName);
+    for (const usage of usages) {
+      lines.push(`Size budget: ${formatBudgetUsage(usage)}: ${budgetExceeded(usage) ? "EXCEEDED" : "ok"}`);
+    }
+    if (usages.length > 0) {
+      lines.push("");
+    }
+  }
+
+  console.log(lines.join("\n").trimEnd());
+}
+
+async function updateRpcStubs(jobs: number) {
+  const graph = new TaskGraph();
+
   const stubs = allDepsSorted(componentDependencies);
   for (const stub of stubs) {
-    await buildStubComponent(stub);
+    addBuildStubComponentTask(graph, stub);
   }
 
+  // Stub dependencies of the same component are added one by one, as they are updating the same WIT root
   for (const [comp, deps] of Object.entries(componentDependencies)) {
+    let prevId: string | undefined;
     for (const dep of deps) {
-      await addStubDependency(comp, dep);
+      const id = `addStubDependency:${comp}:${dep}`;
+      const dependsOn = [`buildStubComponent:${dep}`];
+      if (prevId !== undefined) dependsOn.push(prevId);
+      graph.add(id, dependsOn, () => addStubDependency(comp, dep));
+      prevId = id;
     }
   }
+
+  await graph.run(jobs);
+}
+
+async function checkRpcDeps() {
+  const issues = checkRpcDependencies(project);
+  if (issues.length == 0) {
+    console.log("Component dependencies match the WIT stub imports");
+    return;
+  }
+
+  throw new Error(
+    `Component dependencies do not match the WIT stub imports:\n${issues.map((issue) => `  - ${issue.message}`).join("\n")}`,
+  );
+}
+
+async function syncRpcDeps() {
+  const unknown = checkRpcDependencies(project).filter(
+    (issue) => issue.kind === "undeclared" && project.components[issue.dependency] === undefined,
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Cannot sync component dependencies:\n${unknown.map((issue) => `  - ${issue.message}`).join("\n")}`,
+    );
+  }
+
+  const inferred = inferRpcDependencies(project);
+  let changed = false;
+  for (const [compName, component] of Object.entries(project.components)) {
+    const deps = inferred[compName] ?? [];
+    if (deps.join(",") === component.dependencies.join(",")) continue;
+
+    console.log(`Updating dependencies of ${compName}: [${component.dependencies.join(", ")}] -> [${deps.join(", ")}]`);
+    component.dependencies = deps;
+    changed = true;
+  }
+
+  if (!changed) {
+    console.log(`${project.manifestPath} is up to date`);
+    return;
+  }
+
+  new DependencyGraph(Object.keys(project.components), projectDependencies(project)).validate();
+  saveProjectComponents(project);
+  console.log("Use updateRpcStubs to update the stubs for the changed dependencies");
 }
 
 async function buildStubComponent(compName: string) {
@@ -257,17 +876,14 @@ async function buildStubComponent(compName: string) {
     skipMessage: "stub component build",
     targets: [destWasm, destWitDir],
     sources: [srcWitDir],
+    inputs: { golemCli: await commandVersion("golem-cli") },
+    cache: true,
     run: async () => {
-      return run("golem-cli", [
-        "stubgen",
-        "build",
-        "--source-wit-root",
-        srcWitDir,
-        "--dest-wasm",
-        destWasm,
-        "--dest-wit-root",
-        destWitDir,
-      ]);
+      return run(
+        "golem-cli",
+        ["stubgen", "build", "--source-wit-root", srcWitDir, "--dest-wasm", destWasm, "--dest-wit-root", destWitDir],
+        { timeout: golemCliTimeout },
+      );
     },
   });
 }
@@ -277,108 +893,454 @@ async function addStubDependency(compName: string, depCompName: string) {
   const srcWitDir = path.join(stubTargetDir, "wit");
   const dstComponentDir = path.join(componentsDir, compName);
   const dstWitDir = path.join(dstComponentDir, "wit");
-  const dstWitDepDir = path.join(dstComponentDir, dstWitDir, "deps", `${pckNs}_${compName}`);
-  const dstWitDepStubDir = path.join(dstComponentDir, dstWitDir, "deps", `${pckNs}_${compName}-stub`);
+  const dstWitDepDir = path.join(dstWitDir, "deps", `${pckNs}_${depCompName}`);
+  const dstWitDepStubDir = path.join(dstWitDir, "deps", `${pckNs}_${depCompName}-stub`);
 
   return runTask({
     runMessage: `Adding stub dependency for ${depCompName} to ${compName}`,
     skipMessage: "add stub dependency",
     targets: [dstWitDepDir, dstWitDepStubDir],
     sources: [srcWitDir],
+    inputs: { golemCli: await commandVersion("golem-cli") },
     run: async () => {
-      return run("golem-cli", [
-        "stubgen",
-        "add-stub-dependency",
-        "--overwrite",
-        "--stub-wit-root",
-        srcWitDir,
-        "--dest-wit-root",
-        dstWitDir,
-      ]);
+      return run(
+        "golem-cli",
+        ["stubgen", "add-stub-dependency", "--overwrite", "--stub-wit-root", srcWitDir, "--dest-wit-root", dstWitDir],
+        { timeout: golemCliTimeout },
+      );
     },
   });
 }
 
-async function generateNewComponents(args: string[]) {
-  const compName = getCompNameFromArgs(args);
+async function listTemplates() {
+  const nameWidth = Math.max(...componentTemplates.map((template) => template.name.length));
+  for (const template of componentTemplates) {
+    console.log(`${template.name.padEnd(nameWidth)}  ${template.description}`);
+  }
+}
+
+async function generateNewComponent(compName: string, templateName: string, dependencies: string[]) {
   const componentDir = path.join(componentsDir, compName);
+  const template = componentTemplates.find((template) => template.name === templateName)!;
 
+  if (!isValidComponentName(compName)) {
+    throw new UsageError(
+      `Invalid component name: ${compName}, expected a kebab-case WIT identifier, e.g. component-four`,
+    );
+  }
   if (fs.existsSync(componentDir)) {
     throw new Error(`${componentDir} already exists!`);
   }
+  if (project.components[compName] !== undefined) {
+    throw new Error(`${compName} is already defined in ${project.manifestPath}!`);
+  }
+  if (template.requiresDependency && dependencies.length === 0) {
+    throw new UsageError(`The ${template.name} template requires a dependency, use --depends-on`);
+  }
+  for (const packageName of template.packages) {
+    if (project.packages[packageName] === undefined) {
+      throw new Error(
+        `The ${template.name} template uses package ${packageName}, which is not declared in ${project.manifestPath}`,
+      );
+    }
+  }
+
+  const compNamePascal = dashToPascal(compName);
+  const compNameCamel = compNamePascal.substring(0, 1).toLowerCase() + compNamePascal.substring(1);
+  // The dep-name placeholders refer to the first dependency
+  const depName = dependencies[0] ?? "";
+  const depNamePascal = dashToPascal(depName);
+  const depNameCamel = depNamePascal.substring(0, 1).toLowerCase() + depNamePascal.substring(1);
 
   console.log(`Creating directory ${componentDir}`);
   fs.mkdirSync(componentDir, { recursive: true });
 
-  const entries = fs.readdirSync(componentTemplateDir, {
-    recursive: true,
-    withFileTypes: true,
-  });
+  for (const templateDir of [path.join(project.componentTemplatesDir, commonTemplateDir), template.dir]) {
+    const entries = fs.readdirSync(templateDir, {
+      recursive: true,
+      withFileTypes: true,
+    });
 
-  for (const entry of entries) {
-    const relEntryPath = path.relative(componentTemplateDir, entry.parentPath);
-    if (entry.isDirectory()) {
-      const targetPath = path.join(componentDir, relEntryPath, entry.name);
-      console.log(`Creating directory ${targetPath}`);
-      fs.mkdirSync(targetPath);
+    for (const entry of entries) {
+      const relEntryPath = path.relative(templateDir, entry.parentPath);
+      if (entry.isDirectory()) {
+        const targetPath = path.join(componentDir, relEntryPath, entry.name);
+        console.log(`Creating directory ${targetPath}`);
+        fs.mkdirSync(targetPath, { recursive: true });
 
-      continue;
-    }
+        continue;
+      }
+
+      if (relEntryPath === "" && entry.name === templateDescriptor) {
+        continue;
+      }
+
+      if (entry.name.endsWith(".template")) {
+        const sourcePath = path.join(entry.parentPath, entry.name);
+        const targetPath = path.join(componentDir, relEntryPath, entry.name.replaceAll(".template", ""));
+        console.log(`Generating ${targetPath} from ${sourcePath}`);
+
+        let template = fs.readFileSync(sourcePath).toString();
+        template = template.replaceAll("pck-ns", pckNs);
+        template = template.replaceAll("comp-name", compName);
+        template = template.replaceAll("compName", compNameCamel);
+        template = template.replaceAll("CompName", compNamePascal);
+        template = template.replaceAll("dep-name", depName);
+        template = template.replaceAll("depName", depNameCamel);
+        template = template.replaceAll("DepName", depNamePascal);
+
+        fs.writeFileSync(targetPath, new Uint8Array(Buffer.from(template)));
+
+        continue;
+      }
 
-    if (entry.name.endsWith(".template")) {
       const sourcePath = path.join(entry.parentPath, entry.name);
-      const targetPath = path.join(componentDir, relEntryPath, entry.name.replaceAll(".template", ""));
-      console.log(`Generating ${targetPath} from ${sourcePath}`);
+      const targetPath = path.join(componentDir, relEntryPath, entry.name);
+      console.log(`Copying ${sourcePath} to ${targetPath}`);
+      fs.copyFileSync(sourcePath, targetPath);
+    }
+  }
 
-      const dashToPascal = (str: string): string =>
-        str
-          .split("-")
-          .map((s) => s.substring(0, 1).toUpperCase() + s.substring(1))
-          .join("");
-      const compNamePascal = dashToPascal(compName);
-      const compNameCamel = compNamePascal.substring(0, 1).toLowerCase() + compNamePascal.substring(1);
+  if (dependencies.length > 0) {
+    const mainWit = componentMainWit(project, compName);
+    console.log(`Adding stub imports for ${dependencies.join(", ")} to ${mainWit}`);
+    const witSource = fs.readFileSync(mainWit).toString();
+    fs.writeFileSync(
+      mainWit,
+      addStubImports(
+        mainWit,
+        witSource,
+        dependencies.map((dep) => stubImport(pckNs, dep)),
+      ),
+    );
+  }
 
-      let template = fs.readFileSync(sourcePath).toString();
-      template = template.replaceAll("pck-ns", pckNs);
-      template = template.replaceAll("comp-name", compName);
-      template = template.replaceAll("compName", compNameCamel);
-      template = template.replaceAll("CompName", compNamePascal);
+  console.log(`Adding ${compName} to ${project.manifestPath}`);
+  project.components[compName] = {
+    dependencies,
+    ...(template.packages.length > 0 ? { packages: template.packages } : {}),
+  };
+  saveProjectComponents(project);
 
-      fs.writeFileSync(targetPath, new Uint8Array(Buffer.from(template)));
+  if (dependencies.length > 0) {
+    console.log("Use updateRpcStubs to add the stubs of the dependencies");
+  }
+}
 
-      continue;
+async function removeComponent(compName: string) {
+  const dependants = componentDependants(compName);
+  if (dependants.length > 0) {
+    throw new Error(`${compName} is used by ${dependants.join(", ")}, remove these dependencies first`);
+  }
+
+  removeComponentOutputs(compName);
+  removePaths([path.join(componentsDir, compName)]);
+
+  console.log(`Removing ${compName} from ${project.manifestPath}`);
+  delete project.components[compName];
+  saveProjectComponents(project);
+}
+
+async function renameComponent(compName: string, newCompName: string) {
+  const componentDir = path.join(componentsDir, compName);
+  const newComponentDir = path.join(componentsDir, newCompName);
+
+  if (!isValidComponentName(newCompName)) {
+    throw new UsageError(
+      `Invalid component name: ${newCompName}, expected a kebab-case WIT identifier, e.g. component-four`,
+    );
+  }
+  if (fs.existsSync(newComponentDir)) {
+    throw new Error(`${newComponentDir} already exists!`);
+  }
+  if (project.components[newCompName] !== undefined) {
+    throw new Error(`${newCompName} is already defined in ${project.manifestPath}!`);
+  }
+
+  const dependants = componentDependants(compName);
+
+  // Outputs of the dependants are also removed, as they are referring to the old stub and environment variable
+  removeComponentOutputs(compName);
+  removePaths(dependants.map((dependant) => path.join(componentsDir, dependant, generatedDir)));
+
+  console.log(`Moving ${componentDir} to ${newComponentDir}`);
+  fs.renameSync(componentDir, newComponentDir);
+
+  const compNamesAfterRename = compNames.map((name) => (name === compName ? newCompName : name));
+  const sources: [SourceKind, string][] = [
+    ...compNamesAfterRename.map((name): [SourceKind, string] => ["wit", componentMainWit(project, name)]),
+    ...fsMatch({
+      includePaths: compNamesAfterRename.map((name) => path.join(componentsDir, name)),
+      picoPattern: "**/*.ts",
+      direntFilter: (dirent) => !dirent.parentPath.split(path.sep).includes(generatedDir),
+    }).map((sourcePath): [SourceKind, string] => ["ts", sourcePath]),
+  ];
+  for (const [kind, sourcePath] of sources) {
+    const source = fs.readFileSync(sourcePath).toString();
+    const renamed = renameComponentReferences(kind, source, pckNs, compName, newCompName, compNames);
+    if (renamed !== source) {
+      console.log(`Updating ${sourcePath}`);
+      fs.writeFileSync(sourcePath, renamed);
     }
+  }
+
+  console.log(`Renaming ${compName} to ${newCompName} in ${project.manifestPath}`);
+  project.components = Object.fromEntries(
+    Object.entries(project.components).map(([name, component]) => [
+      name === compName ? newCompName : name,
+      { ...component, dependencies: component.dependencies.map((dep) => (dep === compName ? newCompName : dep)) },
+    ]),
+  );
+  saveProjectComponents(project);
 
-    const sourcePath = path.join(entry.parentPath, entry.name);
-    const targetPath = path.join(componentDir, relEntryPath, entry.name);
-    console.log(`Copying ${sourcePath} to ${targetPath}`);
-    fs.copyFileSync(sourcePath, targetPath);
+  // Tests are not updated, as these can also use component names as plain test data
+  const testSources = fsMatch({
+    includePaths: ["test"],
+    picoPattern: "**/*.ts",
+    direntFilter: (dirent) => !dirent.parentPath.split(path.sep).includes(generatedDir),
+  }).filter((sourcePath) => fs.readFileSync(sourcePath).toString().includes(compName));
+  if (testSources.length > 0) {
+    console.log(`Check the references of ${compName} in ${testSources.join(", ")}`);
+  }
+  if (dependants.length > 0) {
+    console.log(`Use updateRpcStubs to add the stub of ${newCompName} to ${dependants.join(", ")}`);
+  }
+  console.log(`Deployed components and workers are not renamed, ${newCompName} is deployed as a new component`);
+}
+
+function componentDependants(compName: string): string[] {
+  return compNames.filter((name) => componentDependencies[name]?.includes(compName));
+}
+
+// Removes the build outputs of the component, and its stub from the WIT dependencies of all components
+function removeComponentOutputs(compName: string) {
+  removePaths([
+    path.join(componentsDir, compName, generatedDir),
+    path.join(outDir, "stub", compName),
+    path.join(outDir, "build", compName),
+    path.join(outDir, "components", `${compName}.wasm`),
+    path.join(testGeneratedDir, `${compName}.ts`),
+    ...compNames.flatMap((name) => [
+      path.join(componentsDir, name, "wit", "deps", `${pckNs}_${compName}`),
+      path.join(componentsDir, name, "wit", "deps", `${pckNs}_${compName}-stub`),
+    ]),
+  ]);
+}
+
+function removePaths(paths: string[]) {
+  for (const path of paths) {
+    if (!fs.existsSync(path)) continue;
+    console.log(`Deleting ${path}`);
+    fs.rmSync(path, { recursive: true, force: true });
   }
 }
 
-async function deploy() {
+async function deploy(environment: DeployEnvironment, dryRun: boolean) {
   for (const compName of compNames) {
-    await deployComponent(compName);
+    await deployComponent(environment, compName, dryRun);
   }
 }
 
-async function deployComponentCmd(args: string[]) {
-  return deployComponent(getCompNameFromArgs(args));
+// Deploys the component if its WASM changed since the last deploy, using update if the component already exists
+async function deployComponent(environment: DeployEnvironment, compName: string, dryRun: boolean = false) {
+  const wasm = path.join(outDir, "components", compName + ".wasm");
+  if (!fs.existsSync(wasm)) {
+    throw new Error(`Missing ${wasm}, the component has to be built before deploying it`);
+  }
+
+  const deployedName = deployedComponentName(environment, compName);
+  const target = `${deployedName} to the ${environment.name} environment`;
+  const state = deployState(environment);
+  const wasmHash = hashPaths([wasm]);
+  // Keyed by the deployed name, so changing the prefix or suffix of the environment deploys the components again
+  const deployed = state.get(deployedName);
+  if (deployed?.wasmHash === wasmHash) {
+    console.log(`Skipping deploying ${target}, unchanged since version ${deployed.componentVersion}`);
+    return;
+  }
+
+  const operation = deployed !== undefined || (await componentExists(environment, compName)) ? "update" : "add";
+  if (dryRun) {
+    console.log(`Would deploy ${target} (component ${operation})`);
+    return;
+  }
+
+  console.log(`Deploying ${target} (component ${operation})`);
+  const output = await golemCliOutput(
+    environment,
+    ["--format", "json", "component", operation, "--non-interactive", "--component-name", deployedName, wasm],
+    `Deploying ${deployedName}`,
+  );
+  const metadata = JSON.parse(output) as { componentUrn: string; componentVersion: number };
+  state.set(deployedName, {
+    wasmHash,
+    componentUrn: metadata.componentUrn,
+    componentVersion: metadata.componentVersion,
+  });
+  console.log(`Deployed ${deployedName} as ${metadata.componentUrn}, version ${metadata.componentVersion}`);
 }
 
-async function deployComponent(compName: string) {
-  console.log(`Deploying ${compName}`);
-  const componentsTargetDir = path.join(outDir, "components");
-  const wasm = path.join(componentsTargetDir, compName + ".wasm");
-  return run("golem-cli", ["component", "add", "--non-interactive", "--component-name", compName, wasm]);
+// Adds the worker with the environment variables holding the component IDs of the component's RPC dependencies,
+// and with the worker environment variables of the deploy environment
+async function addWorker(
+  environment: DeployEnvironment,
+  compName: string,
+  workerName: string,
+  env: { [key: string]: string },
+) {
+  const deployedName = deployedComponentName(environment, compName);
+  const workerEnv: { [key: string]: string } = {};
+  for (const dep of componentDependencies[compName] ?? []) {
+    workerEnv[componentIdEnvVarKey(dep)] = await componentId(environment, dep);
+  }
+  Object.assign(workerEnv, environment.workerEnv, env);
+
+  console.log(`Adding worker ${deployedName}/${workerName}`);
+  for (const [key, value] of Object.entries(workerEnv)) {
+    console.log(`  ${key}=${value}`);
+  }
+  await golemCliOutput(
+    environment,
+    [
+      "worker",
+      "add",
+      "--component-name",
+      deployedName,
+      "--worker-name",
+      workerName,
+      ...Object.entries(workerEnv).flatMap(([key, value]) => ["--env", `${key}=${value}`]),
+    ],
+    `Adding worker ${deployedName}/${workerName}`,
+  );
 }
 
-async function test() {
-  return run("npx", ["tsx", ...fsMatch({ includePaths: ["test"], picoPattern: "test/**.test.ts" })]);
+// Workers with the same name are the default RPC targets of each other (see the example components)
+async function addWorkers(environment: DeployEnvironment, workerName: string, env: { [key: string]: string }) {
+  for (const compName of compNames) {
+    await addWorker(environment, compName, workerName, env);
+  }
+}
+
+function parseEnvVars(envVars: string[]): { [key: string]: string } {
+  const env: { [key: string]: string } = {};
+  for (const envVar of envVars) {
+    const eqIdx = envVar.indexOf("=");
+    if (eqIdx <= 0) {
+      throw new UsageError(`Invalid environment variable, expected key=value: ${envVar}`);
+    }
+    env[envVar.substring(0, eqIdx)] = envVar.substring(eqIdx + 1);
+  }
+  return env;
+}
+
+function environment(name: string | undefined): DeployEnvironment {
+  return deployEnvironment(project, name);
+}
+
+const componentIds = new Map<string, Promise<string>>();
+
+// Component ID of the currently deployed component in the environment
+function componentId(environment: DeployEnvironment, compName: string): Promise<string> {
+  const key = `${environment.name}/${compName}`;
+  let id = componentIds.get(key);
+  if (id === undefined) {
+    const deployedName = deployedComponentName(environment, compName);
+    id = golemCliOutput(
+      environment,
+      ["--format", "json", "component", "get", "--component-name", deployedName],
+      `Getting component ${deployedName}`,
+    ).then((output) => componentIdFromURN((JSON.parse(output) as { componentUrn: string }).componentUrn));
+    componentIds.set(key, id);
+  }
+  return id;
+}
+
+async function componentExists(environment: DeployEnvironment, compName: string): Promise<boolean> {
+  const deployedName = deployedComponentName(environment, compName);
+  return (await golemCli(environment, ["component", "get", "--component-name", deployedName])).code === 0;
+}
+
+async function golemCli(environment: DeployEnvironment, args: string[]) {
+  if (environment.local) {
+    const localGolem = await startLocalGolem();
+    return runCapture(localGolem.golemCli, args, { env: localGolem.env, timeout: golemCliTimeout });
+  }
+  const profileArgs = environment.profile !== undefined ? ["--profile", environment.profile] : [];
+  return runCapture("golem-cli", [...profileArgs, ...args], { timeout: golemCliTimeout });
+}
+
+// Runs golem-cli and returns its output, on failure the output is part of the error
+async function golemCliOutput(environment: DeployEnvironment, args: string[], description: string): Promise<string> {
+  const result = await golemCli(environment, args);
+  if (result.code !== 0) {
+    const output = `${result.stdout}${result.stderr}`.trimEnd();
+    throw new ProcessError(`${description} failed with exit code ${result.code}:\n${output}`, result, "exit");
+  }
+  return result.stdout;
+}
+
+async function startLocalGolem() {
+  // Imported on demand, as the local Golem runtime loads jco and the WASI shims
+  const localGolem = await import("./src/local-golem/server");
+  return localGolem.startLocalGolem(project);
+}
+
+async function deps(format: string) {
+  console.log(dependencyGraph.format(format as GraphFormat));
+}
+
+async function test(environment: DeployEnvironment) {
+  for (const compName of compNames) {
+    await generateTestClient(compName);
+  }
+
+  // When testing against the local Golem, golem-cli in the tests refers to its command line
+  const env = {
+    ...(environment.local ? (await startLocalGolem()).env : process.env),
+    [environmentEnvVar]: environment.name,
+  };
+  return run("npx", ["tsx", "--test", ...fsMatch({ includePaths: ["test"], picoPattern: "test/**.test.ts" })], {
+    env,
+  });
+}
+
+// Worker logs are only available from the local Golem, as it keeps them in memory, traces have to be shown in the
+// same build.ts invocation as the tests, e.g. npx tsx build.ts deploy test traces
+async function traces(
+  environment: DeployEnvironment,
+  file: string | undefined,
+  workerName: string | undefined,
+  traceId: string | undefined,
+) {
+  let lines: string[];
+  if (file !== undefined) {
+    lines = fs.readFileSync(file).toString().split("\n");
+  } else if (environment.local) {
+    const workerLogs = (await startLocalGolem()).workerLogs();
+    lines = workerLogs.flatMap((worker) => worker.logs.map((entry) => entry.message));
+  } else {
+    throw new UsageError(
+      `Worker logs of environment ${environment.name} cannot be collected, save the output of golem-cli worker connect for the workers, and use --file`,
+    );
+  }
+
+  const spans = parseTraceSpans(lines);
+  const traceIds = new Set(
+    spans
+      .filter((span) => workerName === undefined || span.worker === workerName)
+      .filter((span) => traceId === undefined || span.traceId === traceId)
+      .map((span) => span.traceId),
+  );
+  const roots = traceTrees(spans.filter((span) => traceIds.has(span.traceId)));
+  if (roots.length === 0) {
+    console.log("No traces found");
+    return;
+  }
+  console.log(formatTraceTrees(roots).join("\n").trimEnd());
 }
 
 async function clean() {
-  const paths = ["out"];
+  const paths = [outDir, testGeneratedDir];
   for (const compName of compNames) {
     paths.push(path.join(componentsDir, compName, generatedDir));
   }
@@ -389,17 +1351,15 @@ async function clean() {
   }
 }
 
-function getCompNameFromArgs(args: string[]) {
-  if (args.length != 1) {
-    throw new Error(`generateNewComponents expected exactly one argument (component-name), got: [${args.join(", ")}]`);
-  }
-
-  const compName = args[0];
-  if (compName === undefined) {
-    throw new Error("Undefined component name");
+function checkComponentName(compName: string): string {
+  if (project.components[compName] === undefined) {
+    throw new UsageError(`Unknown component: ${compName}${didYouMean(compName, compNames)}`);
   }
-
   return compName;
 }
 
+function checkComponentNames(compNames: string[]): string[] {
+  return compNames.map(checkComponentName);
+}
+
 await main(commands);
@@ -8,7 +8,7 @@ export default [
     files: ["**/*.{js,mjs,cjs,ts}"],
   },
   {
-    ignores: ["**/generated"],
+    ignores: ["**/generated", "out"],
   },
   {
     languageOptions: {
@@ -0,0 +1,174 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { runCapture } from "../lib/process";
+
+// Build state is persisted in a manifest, which maps task keys (based on the task targets) to the hash of
+// the task sources and inputs, and to the hash of the targets produced by the last successful run.
+//
+// Targets of cacheable tasks are also stored in a content addressed cache keyed by the sources hash, so switching
+// back to previously built sources restores the targets instead of running the task again. Only the last stored or
+// restored entries of every task are kept, older ones are evicted when storing a new one.
+
+export interface TaskState {
+  sourcesHash: string;
+  targetsHash: string;
+}
+
+interface BuildManifest {
+  version: number;
+  tasks: { [key: string]: TaskState };
+  // Sources hashes of the cache entries of the tasks, the least recently used first
+  cacheEntries?: { [key: string]: string[] };
+}
+
+const manifestVersion = 1;
+
+export const defaultCacheEntriesPerTask = 3;
+
+export class BuildCache {
+  private readonly manifestPath: string;
+  private readonly cacheDir: string;
+  private readonly entriesPerTask: number;
+  private manifest: BuildManifest | undefined;
+
+  constructor(buildStateDir: string, entriesPerTask = defaultCacheEntriesPerTask) {
+    this.manifestPath = path.join(buildStateDir, "build-manifest.json");
+    this.cacheDir = path.join(buildStateDir, "cache");
+    this.entriesPerTask = entriesPerTask;
+  }
+
+  getTaskState(key: string): TaskState | undefined {
+    return this.loadManifest().tasks[key];
+  }
+
+  setTaskState(key: string, state: TaskState) {
+    this.loadManifest().tasks[key] = state;
+    this.saveManifest();
+  }
+
+  // Restores the targets from the cache, returns false if there are no cached targets for the given hash
+  restore(key: string, sourcesHash: string, targets: string[]): boolean {
+    const entryDir = path.join(this.cacheDir, sourcesHash);
+    const entries = targets.map((target, idx) => [target, path.join(entryDir, idx.toString())] as const);
+    if (!entries.every(([, entry]) => fs.existsSync(entry))) {
+      return false;
+    }
+
+    for (const [target, entry] of entries) {
+      fs.rmSync(target, { recursive: true, force: true });
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.cpSync(entry, target, { recursive: true });
+    }
+    this.useEntry(key, sourcesHash);
+    return true;
+  }
+
+  // Stores the targets in the cache, and evicts the least recently used entries of the task above the limit
+  store(key: string, sourcesHash: string, targets: string[]) {
+    const entryDir = path.join(this.cacheDir, sourcesHash);
+    const tmpEntryDir = `${entryDir}.tmp`;
+    fs.rmSync(tmpEntryDir, { recursive: true, force: true });
+    fs.mkdirSync(tmpEntryDir, { recursive: true });
+    targets.forEach((target, idx) => {
+      fs.cpSync(target, path.join(tmpEntryDir, idx.toString()), { recursive: true });
+    });
+    fs.rmSync(entryDir, { recursive: true, force: true });
+    fs.renameSync(tmpEntryDir, entryDir);
+
+    for (const evicted of this.useEntry(key, sourcesHash)) {
+      fs.rmSync(path.join(this.cacheDir, evicted), { recursive: true, force: true });
+    }
+  }
+
+  // Marks the entry as the most recently used one of the task, and returns the entries to evict
+  private useEntry(key: string, sourcesHash: string): string[] {
+    const manifest = this.loadManifest();
+    const entries = [...(manifest.cacheEntries?.[key] ?? []).filter((entry) => entry !== sourcesHash), sourcesHash];
+    const evicted = entries.splice(0, Math.max(0, entries.length - this.entriesPerTask));
+    manifest.cacheEntries = { ...manifest.cacheEntries, [key]: entries };
+    this.saveManifest();
+    return evicted;
+  }
+
+  private saveManifest() {
+    fs.mkdirSync(path.dirname(this.manifestPath), { recursive: true });
+    fs.writeFileSync(this.manifestPath, JSON.stringify(this.loadManifest(), null, 2));
+  }
+
+  private loadManifest(): BuildManifest {
+    if (this.manifest !== undefined) {
+      return this.manifest;
+    }
+
+    this.manifest = { version: manifestVersion, tasks: {} };
+    if (fs.existsSync(this.manifestPath)) {
+      const manifest = JSON.parse(fs.readFileSync(this.manifestPath).toString()) as BuildManifest;
+      if (manifest.version === manifestVersion) {
+        this.manifest = manifest;
+      }
+    }
+    return this.manifest;
+  }
+}
+
+// Hashes the given paths, including file names, so added, deleted and renamed files also change the hash.
+// Missing paths are hashed as missing, instead of failing.
+export function hashPaths(paths: string[]): string {
+  const hash = crypto.createHash("sha256");
+  for (const entryPath of paths) {
+    if (!fs.existsSync(entryPath)) {
+      hash.update(`missing:${entryPath}\0`);
+      continue;
+    }
+
+    if (!fs.statSync(entryPath).isDirectory()) {
+      hash.update(`file:${entryPath}\0${hashFile(entryPath)}\0`);
+      continue;
+    }
+
+    const files = fs
+      .readdirSync(entryPath, { recursive: true, withFileTypes: true })
+      .filter((entry) => !entry.isDirectory())
+      .map((entry) => path.join(entry.parentPath, entry.name))
+      .sort();
+    hash.update(`dir:${entryPath}\0`);
+    for (const file of files) {
+      hash.update(`file:${file}\0${hashFile(file)}\0`);
+    }
+  }
+  return hash.digest("hex");
+}
+
+export function hashValue(value: unknown): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify(value) ?? "undefined")
+    .digest("hex");
+}
+
+function hashFile(file: string): string {
+  return crypto.createHash("sha256").update(fs.readFileSync(file)).digest("hex");
+}
+
+export function npmPackageVersion(packageName: string): string {
+  const packageJson = path.join("node_modules", packageName, "package.json");
+  if (!fs.existsSync(packageJson)) {
+    return "unavailable";
+  }
+  return (JSON.parse(fs.readFileSync(packageJson).toString()) as { version: string }).version;
+}
+
+const commandVersions = new Map<string, Promise<string>>();
+
+export function commandVersion(command: string): Promise<string> {
+  let version = commandVersions.get(command);
+  if (version === undefined) {
+    version = runCapture(command, ["--version"], { timeout: 30 * 1000 }).then(
+      (result) => (result.code === 0 ? result.stdout.trim() : "unavailable"),
+      () => "unavailable",
+    );
+    commandVersions.set(command, version);
+  }
+  return version;
+}
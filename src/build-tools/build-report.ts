@@ -0,0 +1,129 @@
+import fs from "node:fs";
+import path from "node:path";
+
+// Build report collects the executions of runTask (with their status, duration, inputs and outputs), so slow steps
+// can be found from the summary table printed after the build, or from the JSON report written by build --report.
+
+export type TaskStatus =
+  // The task was run
+  | "ran"
+  // The targets were up to date
+  | "skipped"
+  // The targets were restored from the build cache
+  | "restored"
+  | "failed";
+
+export interface TaskRecord {
+  // Id of the TaskGraph task (e.g. componentize:component-one), or the targets of the task outside of task graphs
+  task: string;
+  status: TaskStatus;
+  durationMs: number;
+  sources: string[];
+  inputs: unknown;
+  targets: string[];
+  error?: string;
+}
+
+export interface ComponentSize {
+  component: string;
+  wasm: string;
+  size: number;
+}
+
+export interface BuildReportFile {
+  version: number;
+  startedAt: string;
+  durationMs: number;
+  success: boolean;
+  tasks: TaskRecord[];
+  components: ComponentSize[];
+}
+
+const reportVersion = 1;
+
+export class BuildReport {
+  private readonly startedAt = new Date();
+  readonly tasks: TaskRecord[] = [];
+
+  record(record: TaskRecord) {
+    this.tasks.push(record);
+  }
+
+  toJson(success: boolean, components: ComponentSize[]): BuildReportFile {
+    return {
+      version: reportVersion,
+      startedAt: this.startedAt.toISOString(),
+      durationMs: Date.now() - this.startedAt.getTime(),
+      success,
+      tasks: this.tasks,
+      components,
+    };
+  }
+
+  write(reportPath: string, success: boolean, components: ComponentSize[]) {
+    fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+    fs.writeFileSync(reportPath, JSON.stringify(this.toJson(success, components), null, 2) + "\n");
+  }
+
+  // Formats the tasks in execution order, followed by the component sizes
+  formatSummary(components: ComponentSize[]): string {
+    const taskRows = this.tasks.map((record) => [record.task, record.status, formatDuration(record.durationMs)]);
+    const counts = (["ran", "skipped", "restored", "failed"] as TaskStatus[])
+      .map((status) => [status, this.tasks.filter((record) => record.status === status).length] as const)
+      .filter(([, count]) => count > 0)
+      .map(([status, count]) => `${count} ${status}`);
+    const total = formatDuration(Date.now() - this.startedAt.getTime());
+
+    const lines = formatTable(["Task", "Status", "Duration"], taskRows, [false, false, true]);
+    lines.push(`${this.tasks.length} tasks (${counts.join(", ") || "none"}) in ${total}`);
+    if (components.length > 0) {
+      lines.push(
+        "",
+        ...formatTable(
+          ["Component", "WASM", "Size"],
+          components.map((component) => [component.component, component.wasm, formatSize(component.size)]),
+          [false, false, true],
+        ),
+      );
+    }
+    return lines.join("\n");
+  }
+}
+
+export function formatDuration(durationMs: number): string {
+  return durationMs < 1000 ? `${durationMs} ms` : `${(durationMs / 1000).toFixed(1)} s`;
+}
+
+export function formatSize(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KiB`;
+  return `${(size / 1024 / 1024).toFixed(1)} MiB`;
+}
+
+const sizeUnits: { [unit: string]: number } = { B: 1, KB: 1000, KIB: 1024, MB: 1000 * 1000, MIB: 1024 * 1024 };
+
+// Parses sizes given in bytes, or as strings with units, e.g. "512 KiB" or "12MB"
+export function parseSize(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isInteger(value) && value >= 0 ? value : undefined;
+  }
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([a-zA-Z]*)\s*$/.exec(value);
+  const unitSize = sizeUnits[(match?.[2] || "B").toUpperCase()];
+  if (match === null || unitSize === undefined) {
+    return undefined;
+  }
+  return Math.round(parseFloat(match[1]!) * unitSize);
+}
+
+export function formatTable(header: string[], rows: string[][], alignRight: boolean[]): string[] {
+  const widths = header.map((title, idx) => Math.max(title.length, ...rows.map((row) => row[idx]!.length)));
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, idx) => (alignRight[idx] ? cell.padStart(widths[idx]!) : cell.padEnd(widths[idx]!)))
+      .join("  ")
+      .trimEnd();
+  return [formatRow(header), formatRow(widths.map((width) => "-".repeat(width))), ...rows.map(formatRow)];
+}
@@ -1,140 +1,209 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import fs, { Dirent } from "node:fs";
+import os from "node:os";
 import path from "node:path";
 import picomatch from "picomatch";
+import { BuildCache, hashPaths, hashValue } from "./build-cache";
+import { BuildReport, TaskStatus } from "./build-report";
+import { withProcessContext } from "../lib/process";
 
-export class Command {
-  private constructor(
-    description: string,
-    run: (() => Promise<void>) | undefined,
-    runArgs: ((args: string[]) => Promise<void>) | undefined,
-  ) {
-    this.description = description;
-    this.run = run;
-    this.runArgs = runArgs;
-  }
+// Default number of parallel tasks used by TaskGraph
+export const defaultJobs = os.availableParallelism();
 
-  static cmd(run: () => Promise<void>, description: string): Command {
-    return new Command(description, run, undefined);
-  }
+export interface Task {
+  runMessage: string;
+  skipMessage: string;
+  targets: string[];
+  sources: string[];
+  // Sources discovered by running the task (e.g. the modules of a bundle), which are checked together with sources.
+  // Evaluated again after running the task, so the recorded state already matches the next up-to-date check.
+  discoveredSources?: () => string[];
+  // Additional inputs (e.g. arguments and tool versions) which are part of the up-to-date check
+  inputs?: unknown;
+  // Store the targets in the build cache, and restore them from there when building already seen sources
+  cache?: boolean;
+  run: () => Promise<void>;
+}
 
-  static cmdArgs(runArgs: (args: string[]) => Promise<void>, description: string): Command {
-    return new Command(description, undefined, runArgs);
+// Set from the outDir of the project before running tasks
+let buildCache: BuildCache | undefined;
+
+export function setBuildStateDir(dir: string) {
+  buildCache = new BuildCache(dir);
+}
+
+function currentBuildCache(): BuildCache {
+  if (buildCache === undefined) {
+    throw new Error("The build state directory is not set, tasks can only run after setBuildStateDir");
   }
+  return buildCache;
+}
+
+let buildReport: BuildReport | undefined;
 
-  readonly description: string;
-  readonly run?: () => Promise<void>;
-  readonly runArgs?: (args: string[]) => Promise<void>;
+// Starts recording the executed tasks into a new build report
+export function startBuildReport(): BuildReport {
+  buildReport = new BuildReport();
+  return buildReport;
 }
 
-export const cmd = Command.cmd;
-export const cmdArg = Command.cmdArgs;
+// Id of the TaskGraph task being run, used for the build report
+const currentGraphTask = new AsyncLocalStorage<string>();
 
-export type Commands = { [key: string]: Command };
+export async function runTask(task: Task) {
+  const key = task.targets.join(",");
+  const startedAt = Date.now();
+  const record = (status: TaskStatus, error?: unknown) =>
+    buildReport?.record({
+      task: currentGraphTask.getStore() ?? key,
+      status,
+      durationMs: Date.now() - startedAt,
+      sources: taskSources(task),
+      inputs: task.inputs,
+      targets: task.targets,
+      ...(error !== undefined ? { error: error instanceof Error ? error.message : String(error) } : {}),
+    });
 
-export async function main(commands: Commands) {
-  const args = process.argv.splice(2);
+  try {
+    const status = await runTaskIfNeeded(task, key);
+    record(status);
+  } catch (error) {
+    record("failed", error);
+    throw error;
+  }
+}
 
-  if (args.length == 0) {
-    const maxCmdLen = Math.max(...Object.keys(commands).map((cmd) => cmd.length)) + 1;
-    console.log("Available commands:");
-    for (const [name, cmd] of Object.entries(commands)) {
-      console.log(`  ${(name + ":").padEnd(maxCmdLen)} ${cmd.description}`);
-    }
-    return;
+async function runTaskIfNeeded(task: Task, key: string): Promise<TaskStatus> {
+  if (task.targets.length == 0) {
+    console.log(task.runMessage);
+    await task.run();
+    return "ran";
   }
 
-  for (const cmd of args) {
-    const command = commands[cmd];
-    if (command === undefined) {
-      throw new Error(`Command not found: ${cmd}`);
-    }
-    if (command.run !== undefined) {
-      await command.run();
-    } else if (command.runArgs != undefined) {
-      await command.runArgs(args.splice(1));
-      return;
-    } else {
-      throw new Error(
-        `Illegal state: both command.run and command.runArgs is undefined, description: ${command.description}`,
-      );
+  const hashSources = () =>
+    hashValue({
+      key,
+      sources: hashPaths(taskSources(task)),
+      inputs: task.inputs,
+    });
+  const sourcesHash = hashSources();
+
+  const buildCache = currentBuildCache();
+  const state = buildCache.getTaskState(key);
+  if (state !== undefined && state.sourcesHash === sourcesHash && state.targetsHash === hashPaths(task.targets)) {
+    console.log(`${key} is up to date, skipping ${task.skipMessage}`);
+    return "skipped";
+  }
+
+  let status: TaskStatus;
+  if (task.cache && buildCache.restore(key, sourcesHash, task.targets)) {
+    console.log(`${key} is restored from the build cache, skipping ${task.skipMessage}`);
+    status = "restored";
+  } else {
+    console.log(task.runMessage);
+    await task.run();
+    if (task.cache) {
+      buildCache.store(key, sourcesHash, task.targets);
     }
+    status = "ran";
   }
+
+  buildCache.setTaskState(key, {
+    sourcesHash: task.discoveredSources !== undefined ? hashSources() : sourcesHash,
+    targetsHash: hashPaths(task.targets),
+  });
+  return status;
 }
 
-export interface Task {
-  runMessage: string;
-  skipMessage: string;
-  targets: string[];
-  sources: string[];
+function taskSources(task: Task): string[] {
+  return task.discoveredSources !== undefined ? [...task.sources, ...task.discoveredSources()] : task.sources;
+}
+
+interface GraphTask {
+  id: string;
+  dependsOn: string[];
   run: () => Promise<void>;
 }
 
-export async function runTask(task: Task) {
-  let run = task.targets.length == 0;
-
-  upToDateCheck: for (const target of task.targets) {
-    let targetInfo;
-    try {
-      targetInfo = fs.statSync(target);
-    } catch (error) {
-      if (error instanceof Error && "code" in error && error.code == "ENOENT") {
-        run = true;
-        break;
-      }
-      throw error;
+// TaskGraph runs tasks concurrently (up to the number of jobs), while making sure that a task is only started
+// after all the tasks it depends on have finished successfully. Once a task fails no new tasks are started,
+// the processes of the already running ones are killed, and after waiting for them the first error is rethrown.
+// When running tasks in parallel, the output of their processes is prefixed with the task id.
+export class TaskGraph {
+  private readonly tasks = new Map<string, GraphTask>();
+
+  add(id: string, dependsOn: string[], run: () => Promise<void>) {
+    if (this.tasks.has(id)) {
+      throw new Error(`Task already added: ${id}`);
     }
+    this.tasks.set(id, { id, dependsOn, run });
+  }
 
-    let targetModifiedMs = Number.MAX_SAFE_INTEGER;
-
-    if (targetInfo.isDirectory()) {
-      const targets = fs.readdirSync(target, {
-        recursive: true,
-        withFileTypes: true,
-      });
-      for (const target of targets) {
-        if (target.isDirectory()) continue;
-        const targetInfo = fs.statSync(path.join(target.parentPath, target.name));
-        if (targetModifiedMs > targetInfo.mtimeMs) {
-          targetModifiedMs = targetInfo.mtimeMs;
+  has(id: string): boolean {
+    return this.tasks.has(id);
+  }
+
+  async run(jobs: number = defaultJobs) {
+    if (!Number.isInteger(jobs) || jobs < 1) {
+      throw new Error(`The number of parallel tasks must be a positive integer, got: ${jobs}`);
+    }
+    for (const task of this.tasks.values()) {
+      for (const dep of task.dependsOn) {
+        if (!this.tasks.has(dep)) {
+          throw new Error(`Task ${task.id} depends on unknown task: ${dep}`);
         }
       }
-    } else {
-      targetModifiedMs = targetInfo.mtimeMs;
     }
 
-    for (const source of task.sources) {
-      const sourceInfo = fs.statSync(source);
+    const pending = new Map(this.tasks);
+    const done = new Set<string>();
+    const running = new Map<string, Promise<void>>();
+    const cancel = new AbortController();
+    let failure: { error: unknown } | undefined;
 
-      if (!sourceInfo.isDirectory()) {
-        if (sourceInfo.mtimeMs > targetModifiedMs) {
-          run = true;
-          break upToDateCheck;
-        }
-        continue;
+    const startReadyTasks = () => {
+      for (const task of pending.values()) {
+        if (running.size >= jobs) return;
+        if (!task.dependsOn.every((dep) => done.has(dep))) continue;
+
+        pending.delete(task.id);
+        const context = { name: jobs > 1 ? task.id : undefined, signal: cancel.signal };
+        running.set(
+          task.id,
+          currentGraphTask
+            .run(task.id, () => withProcessContext(context, task.run))
+            .then(
+              () => {
+                done.add(task.id);
+                running.delete(task.id);
+              },
+              (error) => {
+                if (failure === undefined) {
+                  failure = { error };
+                  cancel.abort();
+                }
+                running.delete(task.id);
+              },
+            ),
+        );
       }
+    };
 
-      const sources = fs.readdirSync(source, {
-        recursive: true,
-        withFileTypes: true,
-      });
-      for (const source of sources) {
-        if (source.isDirectory()) continue;
-        const sourceInfo = fs.statSync(path.join(source.parentPath, source.name));
-        if (sourceInfo.mtimeMs > targetModifiedMs) {
-          run = true;
-          break upToDateCheck;
-        }
+    while (pending.size > 0 || running.size > 0) {
+      if (failure === undefined) {
+        startReadyTasks();
+      }
+      if (running.size == 0) {
+        if (failure !== undefined) break;
+        throw new Error(`Cannot run tasks because of circular dependencies: ${Array.from(pending.keys()).join(", ")}`);
       }
+      await Promise.race(running.values());
     }
-  }
 
-  if (!run) {
-    console.log(`${task.targets.join(",")} is up to date, skipping ${task.skipMessage}`);
-    return;
+    if (failure !== undefined) {
+      throw failure.error;
+    }
   }
-
-  console.log(task.runMessage);
-  await task.run();
 }
 
 export type Dependencies = { [key: string]: string[] };
@@ -171,3 +240,33 @@ export function fsMatch(options: FsMatchOptions): string[] {
       .map(([, path]) => path);
   });
 }
+
+export function didYouMean(value: string, candidates: string[]): string {
+  let best: string | undefined;
+  let bestDistance = Number.MAX_SAFE_INTEGER;
+  for (const candidate of candidates) {
+    const distance = editDistance(value, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  if (best === undefined || bestDistance > Math.max(1, Math.floor(value.length / 5))) {
+    return "";
+  }
+  return `, did you mean: ${best}?`;
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current.push(Math.min((prev[j] as number) + 1, (current[j - 1] as number) + 1, (prev[j - 1] as number) + cost));
+    }
+    prev = current;
+  }
+  return prev[b.length] as number;
+}
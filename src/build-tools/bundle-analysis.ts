@@ -0,0 +1,100 @@
+import fs from "node:fs";
+import path from "node:path";
+import { formatSize, formatTable } from "./build-report";
+import { isInside } from "./package-scope";
+
+// Bundle stats are written by rollupComponent next to the rolled-up main.js, with the rendered size of every module
+// of the bundle, so the analyze command can show where the size of a component comes from.
+
+export type ModuleCategory = "component" | "lib" | "node_modules" | "other";
+
+const moduleCategories: ModuleCategory[] = ["component", "lib", "node_modules", "other"];
+
+export interface BundleModule {
+  // Path relative to the project root, or the virtual module id (e.g. for helpers injected by rollup plugins)
+  id: string;
+  category: ModuleCategory;
+  size: number;
+}
+
+export interface BundleStats {
+  version: number;
+  size: number;
+  modules: BundleModule[];
+}
+
+const statsVersion = 1;
+
+export function bundleStats(
+  modules: { [id: string]: { renderedLength: number } },
+  bundleSize: number,
+  componentDir: string,
+  libDir: string,
+): BundleStats {
+  return {
+    version: statsVersion,
+    size: bundleSize,
+    modules: Object.entries(modules)
+      .map(([id, module]) => {
+        const relativeId = path.isAbsolute(id) ? path.relative(process.cwd(), id) : id;
+        return {
+          id: relativeId,
+          category: moduleCategory(relativeId, componentDir, libDir),
+          size: module.renderedLength,
+        };
+      })
+      .sort((a, b) => b.size - a.size),
+  };
+}
+
+function moduleCategory(id: string, componentDir: string, libDir: string): ModuleCategory {
+  const segments = id.split(path.sep);
+  if (segments.includes("node_modules")) return "node_modules";
+  if (isInside(id, componentDir)) return "component";
+  if (isInside(id, libDir)) return "lib";
+  return "other";
+}
+
+export function readBundleStats(statsPath: string): BundleStats | undefined {
+  if (!fs.existsSync(statsPath)) {
+    return undefined;
+  }
+  const stats = JSON.parse(fs.readFileSync(statsPath).toString()) as BundleStats;
+  return stats.version === statsVersion ? stats : undefined;
+}
+
+export interface SizeBudgetUsage {
+  name: string;
+  size: number;
+  budget: number;
+}
+
+export function budgetExceeded(usage: SizeBudgetUsage): boolean {
+  return usage.size > usage.budget;
+}
+
+export function formatBudgetUsage(usage: SizeBudgetUsage): string {
+  const percent = Math.round((usage.size / usage.budget) * 100);
+  return `${usage.name} ${formatSize(usage.size)} of ${formatSize(usage.budget)} budget (${percent}%)`;
+}
+
+// Formats the size of the bundle by module category, followed by the largest modules
+export function formatBundleBreakdown(stats: BundleStats, largestModules: number): string[] {
+  const modulesSize = stats.modules.reduce((sum, module) => sum + module.size, 0);
+  const share = (size: number) => (modulesSize > 0 ? `${Math.round((size / modulesSize) * 100)}%` : "-");
+
+  const categoryRows = moduleCategories.map((category) => {
+    const modules = stats.modules.filter((module) => module.category === category);
+    const size = modules.reduce((sum, module) => sum + module.size, 0);
+    return [category, `${modules.length}`, formatSize(size), share(size)];
+  });
+  const moduleRows = stats.modules
+    .slice(0, largestModules)
+    .map((module) => [module.id, module.category, formatSize(module.size), share(module.size)]);
+
+  return [
+    ...formatTable(["Category", "Modules", "Size", "Share"], categoryRows, [false, true, true, true]),
+    "",
+    ...formatTable(["Largest modules", "Category", "Size", "Share"], moduleRows, [false, false, true, true]),
+  ];
+}
@@ -0,0 +1,395 @@
+import { didYouMean } from "./build-tools";
+
+export interface ArgSpec {
+  name: string;
+  description: string;
+  optional?: boolean;
+  choices?: readonly string[];
+}
+
+export type OptionSpec =
+  | {
+      type: "string";
+      description: string;
+      short?: string;
+      valueName?: string;
+      default?: string;
+      choices?: readonly string[];
+    }
+  | {
+      type: "strings";
+      description: string;
+      short?: string;
+      valueName?: string;
+    }
+  | {
+      type: "number";
+      description: string;
+      short?: string;
+      valueName?: string;
+      default?: number;
+      min?: number;
+      // Only integers are accepted, e.g. for counts
+      integer?: boolean;
+    }
+  | {
+      type: "boolean";
+      description: string;
+      short?: string;
+    };
+
+export type OptionSpecs = { [name: string]: OptionSpec };
+
+type OptionValue<O extends OptionSpec> = O extends { type: "boolean" }
+  ? boolean
+  : O extends { type: "strings" }
+    ? string[]
+    : O extends { type: "number"; default: number }
+      ? number
+      : O extends { type: "number" }
+        ? number | undefined
+        : O extends { type: "string"; default: string }
+          ? string
+          : string | undefined;
+
+export type OptionValues<O extends OptionSpecs> = { -readonly [K in keyof O]: OptionValue<O[K]> };
+
+export type ArgValues<A extends readonly ArgSpec[]> = {
+  [S in A[number] as S["name"]]: S extends { optional: true } ? string | undefined : string;
+};
+
+export interface CommandSpec<A extends readonly ArgSpec[], O extends OptionSpecs> {
+  description: string;
+  args?: A;
+  options?: O;
+  run: (args: ArgValues<A>, options: OptionValues<O>) => Promise<void>;
+}
+
+// UsageError is reported without stack trace, together with the usage of the command
+export class UsageError extends Error {
+  readonly commandName: string | undefined;
+
+  constructor(message: string, commandName?: string) {
+    super(message);
+    this.name = "UsageError";
+    this.commandName = commandName;
+  }
+}
+
+type RawValues = { [name: string]: unknown };
+
+const helpOption: OptionSpec = { type: "boolean", short: "h", description: "show help for the command" };
+
+export class Command {
+  private constructor(
+    description: string,
+    args: readonly ArgSpec[],
+    options: OptionSpecs,
+    run: (args: RawValues, options: RawValues) => Promise<void>,
+  ) {
+    this.description = description;
+    this.args = args;
+    this.options = options;
+    this.run = run;
+
+    let optional = false;
+    for (const arg of args) {
+      if (optional && !arg.optional) {
+        throw new Error(`Required argument ${arg.name} cannot follow optional arguments`);
+      }
+      optional ||= arg.optional === true;
+    }
+  }
+
+  static cmd(run: () => Promise<void>, description: string): Command {
+    return new Command(description, [], {}, run);
+  }
+
+  static command<const A extends readonly ArgSpec[] = [], const O extends OptionSpecs = Record<never, OptionSpec>>(
+    spec: CommandSpec<A, O>,
+  ): Command {
+    return new Command(spec.description, spec.args ?? [], spec.options ?? {}, (args, options) =>
+      spec.run(args as ArgValues<A>, options as OptionValues<O>),
+    );
+  }
+
+  readonly description: string;
+  readonly args: readonly ArgSpec[];
+  readonly options: OptionSpecs;
+  private readonly run: (args: RawValues, options: RawValues) => Promise<void>;
+
+  usage(name: string): string {
+    const args = this.args.map((arg) => (arg.optional ? `[${arg.name}]` : `<${arg.name}>`));
+    return [name, ...(Object.keys(this.options).length > 0 ? ["[options]"] : []), ...args].join(" ");
+  }
+
+  help(name: string): string {
+    const lines = [`Usage: ${this.usage(name)}`, "", this.description];
+
+    if (this.args.length > 0) {
+      lines.push("", "Arguments:");
+      const rows = this.args.map((arg): [string, string] => [
+        arg.name,
+        arg.description + (arg.choices !== undefined ? ` (one of: ${arg.choices.join(", ")})` : ""),
+      ]);
+      lines.push(...formatRows(rows));
+    }
+
+    lines.push("", "Options:");
+    const rows = Object.entries({ ...this.options, help: helpOption }).map(([name, option]): [string, string] => {
+      const short = option.short !== undefined ? `-${option.short}, ` : "    ";
+      const value = option.type !== "boolean" ? ` <${option.valueName ?? option.type.replace(/s$/, "")}>` : "";
+      let description = option.description;
+      if (option.type === "string" && option.choices !== undefined) {
+        description += ` (one of: ${option.choices.join(", ")})`;
+      }
+      if (option.type === "strings") {
+        description += " (can be used multiple times)";
+      }
+      if ((option.type === "string" || option.type === "number") && option.default !== undefined) {
+        description += ` (default: ${option.default})`;
+      }
+      return [`${short}--${name}${value}`, description];
+    });
+    lines.push(...formatRows(rows));
+
+    return lines.join("\n");
+  }
+
+  // Parses the arguments of the command starting at args[start], and returns the index of the first unprocessed
+  // argument. Parsing stops at the first argument which is the name of a command, once all required positional
+  // arguments are consumed.
+  parse(name: string, args: string[], start: number, isCommand: (arg: string) => boolean): ParsedCommand {
+    const argValues: RawValues = {};
+    const optionValues: RawValues = {};
+    for (const [optionName, option] of Object.entries(this.options)) {
+      switch (option.type) {
+        case "boolean":
+          optionValues[optionName] = false;
+          break;
+        case "strings":
+          optionValues[optionName] = [];
+          break;
+        default:
+          optionValues[optionName] = option.default;
+      }
+    }
+
+    let help = false;
+    let argIdx = 0;
+    let idx = start;
+    let optionsEnded = false;
+    for (; idx < args.length; idx++) {
+      const arg = args[idx] as string;
+
+      if (!optionsEnded && arg === "--") {
+        optionsEnded = true;
+        continue;
+      }
+
+      if (!optionsEnded && arg.startsWith("-") && arg.length > 1) {
+        const [optionArg, inlineValue] = splitOptionArg(arg);
+        if (optionArg === "--help" || optionArg === "-h") {
+          help = true;
+          continue;
+        }
+
+        const optionName = this.findOption(name, optionArg);
+        const option = this.options[optionName] as OptionSpec;
+        if (option.type === "boolean") {
+          optionValues[optionName] = inlineValue === undefined ? true : parseBoolean(name, optionArg, inlineValue);
+          continue;
+        }
+
+        let value = inlineValue;
+        if (value === undefined) {
+          value = args[++idx];
+          if (value === undefined) {
+            throw new UsageError(`Missing value for option ${optionArg}`, name);
+          }
+        }
+
+        if (option.type === "strings") {
+          (optionValues[optionName] as string[]).push(value);
+        } else if (option.type === "number") {
+          const number = Number(value);
+          if (
+            value.trim() === "" ||
+            Number.isNaN(number) ||
+            (option.integer === true && !Number.isInteger(number)) ||
+            (option.min !== undefined && number < option.min)
+          ) {
+            const expected = option.integer === true ? "an integer" : "a number";
+            throw new UsageError(
+              `Option ${optionArg} expects ${expected}${option.min !== undefined ? ` >= ${option.min}` : ""}, got: ${value}`,
+              name,
+            );
+          }
+          optionValues[optionName] = number;
+        } else {
+          checkChoice(name, `option ${optionArg}`, value, option.choices);
+          optionValues[optionName] = value;
+        }
+        continue;
+      }
+
+      const argSpec = this.args[argIdx];
+      const requiredArgsConsumed = argSpec === undefined || argSpec.optional === true;
+      if (requiredArgsConsumed && isCommand(arg)) {
+        break;
+      }
+      if (argSpec === undefined) {
+        throw new UsageError(`Unexpected argument: ${arg}`, name);
+      }
+
+      checkChoice(name, `argument ${argSpec.name}`, arg, argSpec.choices);
+      argValues[argSpec.name] = arg;
+      argIdx++;
+    }
+
+    const missingArg = this.args[argIdx];
+    if (!help && missingArg !== undefined && !missingArg.optional) {
+      throw new UsageError(`Missing required argument: <${missingArg.name}>`, name);
+    }
+
+    return {
+      name,
+      help,
+      next: idx,
+      run: () => this.run(argValues, optionValues),
+    };
+  }
+
+  private findOption(commandName: string, optionArg: string): string {
+    if (optionArg.startsWith("--")) {
+      const optionName = optionArg.substring(2);
+      if (this.options[optionName] !== undefined) {
+        return optionName;
+      }
+    } else {
+      const short = optionArg.substring(1);
+      for (const [optionName, option] of Object.entries(this.options)) {
+        if (option.short === short) {
+          return optionName;
+        }
+      }
+    }
+
+    const knownOptions = Object.keys(this.options).map((optionName) => `--${optionName}`);
+    throw new UsageError(`Unknown option: ${optionArg}${didYouMean(optionArg, knownOptions)}`, commandName);
+  }
+}
+
+interface ParsedCommand {
+  name: string;
+  help: boolean;
+  next: number;
+  run: () => Promise<void>;
+}
+
+export const cmd = Command.cmd;
+export const command = Command.command;
+
+export type Commands = { [key: string]: Command };
+
+export async function main(commands: Commands) {
+  const args = process.argv.splice(2);
+
+  if (args.length == 0 || args[0] === "--help" || args[0] === "-h") {
+    printCommands(commands);
+    return;
+  }
+
+  // All commands are parsed before running any of them, so usage errors are reported without partially running
+  let parsedCommands: ParsedCommand[];
+  try {
+    parsedCommands = parseCommands(commands, args);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      reportUsageError(commands, error);
+      return;
+    }
+    throw error;
+  }
+
+  const helpCommands = parsedCommands.filter((parsedCommand) => parsedCommand.help);
+  if (helpCommands.length > 0) {
+    console.log(helpCommands.map(({ name }) => (commands[name] as Command).help(name)).join("\n\n"));
+    return;
+  }
+
+  for (const parsedCommand of parsedCommands) {
+    try {
+      await parsedCommand.run();
+    } catch (error) {
+      if (error instanceof UsageError) {
+        reportUsageError(commands, new UsageError(error.message, error.commandName ?? parsedCommand.name));
+        return;
+      }
+      throw error;
+    }
+  }
+}
+
+function parseCommands(commands: Commands, args: string[]): ParsedCommand[] {
+  const isCommand = (arg: string) => commands[arg] !== undefined;
+  const parsedCommands: ParsedCommand[] = [];
+  let idx = 0;
+  while (idx < args.length) {
+    const name = args[idx] as string;
+    const command = commands[name];
+    if (command === undefined) {
+      throw new UsageError(`Command not found: ${name}${didYouMean(name, Object.keys(commands))}`);
+    }
+
+    const parsedCommand = command.parse(name, args, idx + 1, isCommand);
+    parsedCommands.push(parsedCommand);
+    idx = parsedCommand.next;
+  }
+  return parsedCommands;
+}
+
+function printCommands(commands: Commands) {
+  const maxCmdLen = Math.max(...Object.keys(commands).map((cmd) => cmd.length)) + 1;
+  console.log("Available commands:");
+  for (const [name, cmd] of Object.entries(commands)) {
+    console.log(`  ${(name + ":").padEnd(maxCmdLen)} ${cmd.description}`);
+  }
+  console.log("\nUse <command> --help for the arguments and options of a command.");
+}
+
+function reportUsageError(commands: Commands, error: UsageError) {
+  const command = error.commandName !== undefined ? commands[error.commandName] : undefined;
+  console.error(`Error: ${error.message}`);
+  if (command !== undefined && error.commandName !== undefined) {
+    console.error(`\n${command.help(error.commandName)}`);
+  } else {
+    console.error(`\nAvailable commands: ${Object.keys(commands).join(", ")}`);
+  }
+  process.exitCode = 1;
+}
+
+function splitOptionArg(arg: string): [string, string | undefined] {
+  const eqIdx = arg.indexOf("=");
+  if (!arg.startsWith("--") || eqIdx < 0) {
+    return [arg, undefined];
+  }
+  return [arg.substring(0, eqIdx), arg.substring(eqIdx + 1)];
+}
+
+function parseBoolean(commandName: string, optionArg: string, value: string): boolean {
+  if (value === "true") return true;
+  if (value === "false") return false;
+  throw new UsageError(`Option ${optionArg} expects true or false, got: ${value}`, commandName);
+}
+
+function checkChoice(commandName: string, name: string, value: string, choices: readonly string[] | undefined) {
+  if (choices !== undefined && !choices.includes(value)) {
+    throw new UsageError(`Invalid value for ${name}: ${value}, expected one of: ${choices.join(", ")}`, commandName);
+  }
+}
+
+function formatRows(rows: [string, string][]): string[] {
+  const maxLen = Math.max(...rows.map(([left]) => left.length));
+  return rows.map(([left, right]) => `  ${left.padEnd(maxLen)}  ${right}`);
+}
@@ -0,0 +1,165 @@
+import fs from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { transform } from "esbuild";
+import { Plugin } from "rollup";
+import { didYouMean } from "./build-tools";
+import { hashPaths } from "./build-cache";
+
+// Optional build configuration of a component, placed next to its main.ts, e.g.:
+//
+//   import { defineComponentBuildConfig } from "../../build-tools/component-build-config";
+//
+//   export default defineComponentBuildConfig({
+//     rollup: { define: { DEBUG: false }, minify: true },
+//     componentize: { disable: ["stdio"] },
+//   });
+export const componentBuildConfigFile = "build.config.ts";
+
+export interface ComponentBuildConfig {
+  rollup?: RollupConfig;
+  componentize?: ComponentizeConfig;
+}
+
+export interface RollupConfig {
+  // Additional rollup plugins, applied after the node-resolve and TypeScript plugins
+  plugins?: Plugin[];
+  // Compile-time constants, the identifiers (e.g. DEBUG or process.env.NODE_ENV) are replaced with the JSON values
+  define?: { [identifier: string]: string | number | boolean | null };
+  minify?: boolean;
+  // Writes the source map next to the bundle, as main.js.map
+  sourcemap?: boolean;
+}
+
+// Options passed to jco componentize
+export interface ComponentizeConfig {
+  worldName?: string;
+  disable?: ("stdio" | "random" | "clocks" | "all")[];
+  enable?: "http"[];
+  preview2Adapter?: string;
+}
+
+const configKeys = ["rollup", "componentize"];
+const rollupKeys = ["plugins", "define", "minify", "sourcemap"];
+const componentizeKeys = ["worldName", "disable", "enable", "preview2Adapter"];
+
+export function defineComponentBuildConfig(config: ComponentBuildConfig): ComponentBuildConfig {
+  return config;
+}
+
+export function componentBuildConfigPath(componentDir: string): string {
+  return path.join(componentDir, componentBuildConfigFile);
+}
+
+// Loads the build configuration of the component, or returns an empty one, when the component does not have one.
+// The module URL contains the hash of the config, so changed configs are reloaded in watch mode.
+export async function loadComponentBuildConfig(componentDir: string): Promise<ComponentBuildConfig> {
+  const configPath = componentBuildConfigPath(componentDir);
+  if (!fs.existsSync(configPath)) {
+    return {};
+  }
+
+  const url = `${pathToFileURL(path.resolve(configPath)).href}?hash=${hashPaths([configPath])}`;
+  let config: unknown;
+  try {
+    config = ((await import(url)) as { default?: unknown }).default;
+  } catch (error) {
+    throw new Error(
+      `Failed to load component build config ${configPath}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+
+  const errors = validateConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid component build config ${configPath}:\n${errors.map((e) => `  - ${e}`).join("\n")}`);
+  }
+  return config as ComponentBuildConfig;
+}
+
+function validateConfig(config: unknown): string[] {
+  if (!isObject(config)) {
+    return ["the config must be the default export, created with defineComponentBuildConfig"];
+  }
+
+  const errors = unknownKeys("", config, configKeys);
+  if (config["rollup"] !== undefined) {
+    if (!isObject(config["rollup"])) {
+      errors.push("rollup must be an object");
+    } else {
+      errors.push(...unknownKeys("rollup.", config["rollup"], rollupKeys));
+    }
+  }
+  if (config["componentize"] !== undefined) {
+    if (!isObject(config["componentize"])) {
+      errors.push("componentize must be an object");
+    } else {
+      errors.push(...unknownKeys("componentize.", config["componentize"], componentizeKeys));
+    }
+  }
+  return errors;
+}
+
+function unknownKeys(prefix: string, raw: { [key: string]: unknown }, knownKeys: string[]): string[] {
+  return Object.keys(raw)
+    .filter((key) => !knownKeys.includes(key))
+    .map((key) => `unknown property: ${prefix}${key}${didYouMean(key, knownKeys)}`);
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Settings of the rollup config, which are part of the up-to-date check of the rollup task, the code of the plugins
+// is covered by the config file being one of the sources
+export function rollupConfigInputs(config: ComponentBuildConfig): unknown {
+  const rollup = config.rollup ?? {};
+  return {
+    plugins: (rollup.plugins ?? []).map((plugin) => plugin.name),
+    define: rollup.define ?? {},
+    minify: rollup.minify ?? false,
+    sourcemap: rollup.sourcemap ?? false,
+  };
+}
+
+// Plugins added after the default ones, define and minify are applied on the rendered chunk using esbuild
+export function rollupConfigPlugins(config: ComponentBuildConfig): Plugin[] {
+  const rollup = config.rollup ?? {};
+  const plugins = [...(rollup.plugins ?? [])];
+  if (rollup.define !== undefined || rollup.minify) {
+    plugins.push(esbuildTransformPlugin(rollup.define ?? {}, rollup.minify ?? false));
+  }
+  return plugins;
+}
+
+function esbuildTransformPlugin(define: NonNullable<RollupConfig["define"]>, minify: boolean): Plugin {
+  return {
+    name: "component-build-config-transform",
+    async renderChunk(code, chunk, outputOptions) {
+      const result = await transform(code, {
+        define: Object.fromEntries(
+          Object.entries(define).map(([identifier, value]) => [identifier, JSON.stringify(value)]),
+        ),
+        minify,
+        format: "esm",
+        target: "es2022",
+        sourcemap: outputOptions.sourcemap ? "external" : false,
+        sourcefile: chunk.fileName,
+      });
+      return { code: result.code, map: result.map !== "" ? result.map : null };
+    },
+  };
+}
+
+export function componentizeArgs(config: ComponentBuildConfig): string[] {
+  const componentize = config.componentize ?? {};
+  return [
+    ...(componentize.worldName !== undefined ? ["--world-name", componentize.worldName] : []),
+    ...(componentize.disable !== undefined && componentize.disable.length > 0
+      ? ["--disable", ...componentize.disable]
+      : []),
+    ...(componentize.enable !== undefined && componentize.enable.length > 0
+      ? ["--enable", ...componentize.enable]
+      : []),
+    ...(componentize.preview2Adapter !== undefined ? ["--preview2-adapter", componentize.preview2Adapter] : []),
+  ];
+}
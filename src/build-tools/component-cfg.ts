@@ -0,0 +1,64 @@
+import path from "node:path";
+
+// Name of the environment variable holding the deployed component ID, e.g. COMPONENT_TWO_ID for component-two
+export function componentIdEnvVarKey(compName: string): string {
+  return `${compName.replaceAll("-", "_").toUpperCase()}_ID`;
+}
+
+// Component ID part of a component URN, e.g. <id> for urn:component:<id>
+export function componentIdFromURN(componentURN: string): string {
+  const match = /^urn:component:([^/:]+)$/.exec(componentURN);
+  if (match === null) {
+    throw new Error(`Invalid component URN: ${componentURN}`);
+  }
+  return match[1] as string;
+}
+
+export function dashToPascal(str: string): string {
+  return str
+    .split("-")
+    .map((s) => s.substring(0, 1).toUpperCase() + s.substring(1))
+    .join("");
+}
+
+// Generates the cfg module of a component, which only contains the worker URN helpers for the components
+// it is allowed to call (based on its RPC dependencies)
+export function generateCfgModule(cfgModulePath: string, libCfgPath: string, deps: string[]): string {
+  let libCfgImport = path.relative(path.dirname(cfgModulePath), libCfgPath).replace(/\.ts$/, "");
+  libCfgImport = libCfgImport.split(path.sep).join("/");
+  if (!libCfgImport.startsWith(".")) {
+    libCfgImport = `./${libCfgImport}`;
+  }
+
+  const lines = [
+    "// Generated by build.ts based on the component dependencies in the project manifest, do not edit!",
+    "",
+    `import * as cfg from "${libCfgImport}";`,
+    "",
+    ...(deps.length == 0
+      ? ["export const envVarKeys = {} as const;"]
+      : [
+          "export const envVarKeys = {",
+          ...deps.map((dep) => `  ${componentIdEnvVarKey(dep)}: "${componentIdEnvVarKey(dep)}",`),
+          "} as const;",
+        ]),
+    "",
+    "// Checks that all the environment variables required by the component are defined, reporting all missing ones",
+    "// together. Called at the start of the exported functions, so a worker without them fails on its first invocation",
+    "// (module initialization happens at build time, without the worker environment).",
+    "export function checkEnv() {",
+    "  cfg.requireEnv(Object.values(envVarKeys));",
+    "}",
+  ];
+
+  for (const dep of deps) {
+    lines.push(
+      "",
+      `export function get${dashToPascal(dep)}WorkerURN(workerName: string): cfg.Uri {`,
+      `  return cfg.getComponentWorkerURN(envVarKeys.${componentIdEnvVarKey(dep)}, workerName);`,
+      "}",
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,88 @@
+import { componentIdEnvVarKey, dashToPascal } from "./component-cfg";
+import { stubImport } from "./wit";
+
+export type SourceKind = "wit" | "ts";
+
+interface NameForms {
+  stubImport: string;
+  bindingPath: string;
+  kebab: string;
+  pascal: string;
+  camel: string;
+  envVarKey: string;
+}
+
+// Patterns of the name forms, with the characters which cannot precede and follow them
+interface NamePattern {
+  form: keyof NameForms;
+  before: string;
+  after: string;
+}
+
+const witPatterns: NamePattern[] = [
+  { form: "stubImport", before: "", after: "" },
+  { form: "kebab", before: "(?<![a-z0-9-])", after: "(?![a-z0-9])" },
+];
+
+const tsPatterns: NamePattern[] = [
+  { form: "stubImport", before: "", after: "" },
+  { form: "bindingPath", before: "", after: "" },
+  { form: "kebab", before: "(?<![a-z0-9-])", after: "(?![a-zA-Z0-9_$])" },
+  { form: "pascal", before: "(?<![A-Z0-9])", after: "(?![a-z0-9])" },
+  { form: "camel", before: "(?<![A-Za-z0-9_$-])", after: "(?![a-z0-9])" },
+  { form: "envVarKey", before: "(?<![A-Z0-9_])", after: "(?![A-Z0-9_])" },
+];
+
+// Rewrites the references of a renamed component in a WIT or TypeScript source: the stub imports, the kebab-case
+// names (e.g. the package, the interfaces and the generated binding paths), the PascalCase and camelCase identifiers
+// (e.g. ComponentTwoApi, componentTwoApi and getComponentTwoWorkerURN), and the component ID environment variable key.
+// Names of other components starting with the renamed one (e.g. counter-client for counter) are left untouched.
+export function renameComponentReferences(
+  kind: SourceKind,
+  source: string,
+  namespace: string,
+  oldName: string,
+  newName: string,
+  compNames: string[],
+): string {
+  const oldForms = nameForms(namespace, oldName);
+  const newForms = nameForms(namespace, newName);
+  const longerForms = compNames
+    .filter((compName) => compName.startsWith(`${oldName}-`))
+    .map((compName) => nameForms(namespace, compName));
+
+  // Single word names are the same in kebab-case and camelCase, in TypeScript these are handled as identifiers
+  const patterns = (kind === "wit" ? witPatterns : tsPatterns).filter(
+    (pattern) => kind === "wit" || pattern.form !== "kebab" || oldName.includes("-"),
+  );
+
+  // All forms are replaced in one pass, so the new names are not matched again
+  const alternatives = patterns.map(({ form, before, after }) => {
+    const exclusions = longerForms
+      .filter((forms) => forms[form].startsWith(oldForms[form]))
+      .map((forms) => `(?!${escapeRegExp(forms[form].substring(oldForms[form].length))}${after})`)
+      .join("");
+    return `(?<${form}>${before}${escapeRegExp(oldForms[form])}${exclusions}${after})`;
+  });
+  return source.replaceAll(new RegExp(alternatives.join("|"), "g"), (...args) => {
+    const groups = args[args.length - 1] as { [form: string]: string | undefined };
+    const form = patterns.find((pattern) => groups[pattern.form] !== undefined)!.form;
+    return newForms[form];
+  });
+}
+
+function nameForms(namespace: string, compName: string): NameForms {
+  const pascal = dashToPascal(compName);
+  return {
+    stubImport: stubImport(namespace, compName),
+    bindingPath: `/generated/${compName}"`,
+    kebab: compName,
+    pascal,
+    camel: pascal.substring(0, 1).toLowerCase() + pascal.substring(1),
+    envVarKey: componentIdEnvVarKey(compName),
+  };
+}
+
+function escapeRegExp(str: string): string {
+  return str.replaceAll(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,69 @@
+import fs from "node:fs";
+import path from "node:path";
+
+// Component templates are the subdirectories of the templates dir with a template.json descriptor, the common
+// directory is copied for every template (e.g. the WIT dependencies), before the files of the selected template.
+// Files ending with .template are rendered by replacing the placeholders (see generateNewComponent in build.ts).
+
+export const commonTemplateDir = "common";
+export const templateDescriptor = "template.json";
+
+// Marker line in the main.wit templates, the stub imports of the RPC dependencies are added after it
+const stubImportsMarker = "// Project Component dependencies";
+
+export interface ComponentTemplate {
+  name: string;
+  dir: string;
+  description: string;
+  // The template calls the first dependency, so it can only be used with --depends-on
+  requiresDependency: boolean;
+  // Shared packages imported by the template, added to the packages of the new component
+  packages: string[];
+}
+
+export function loadComponentTemplates(templatesDir: string): ComponentTemplate[] {
+  if (!fs.existsSync(templatesDir)) {
+    throw new Error(`Component templates dir not found: ${templatesDir}`);
+  }
+
+  return fs
+    .readdirSync(templatesDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && fs.existsSync(path.join(templatesDir, entry.name, templateDescriptor)))
+    .map((entry) => {
+      const dir = path.join(templatesDir, entry.name);
+      const descriptorPath = path.join(dir, templateDescriptor);
+      const descriptor = JSON.parse(fs.readFileSync(descriptorPath).toString());
+      if (typeof descriptor.description !== "string") {
+        throw new Error(`Missing description in ${descriptorPath}`);
+      }
+      const packages = descriptor.packages ?? [];
+      if (!Array.isArray(packages) || !packages.every((name) => typeof name === "string")) {
+        throw new Error(`Invalid packages in ${descriptorPath}, expected an array of package names`);
+      }
+      return {
+        name: entry.name,
+        dir,
+        description: descriptor.description,
+        requiresDependency: descriptor.requiresDependency === true,
+        packages,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Component names are used as WIT package and interface names, so they have to be lower case kebab-case identifiers
+export function isValidComponentName(compName: string): boolean {
+  return /^[a-z][a-z0-9]*(-[a-z][a-z0-9]*)*$/.test(compName);
+}
+
+// Adds the imports after the marker line of the WIT world, using the indentation of the marker
+export function addStubImports(witPath: string, witSource: string, imports: string[]): string {
+  const lines = witSource.split("\n");
+  const markerIdx = lines.findIndex((line) => line.trim() === stubImportsMarker);
+  if (markerIdx === -1) {
+    throw new Error(`Missing "${stubImportsMarker}" line in ${witPath}, cannot add the stub imports`);
+  }
+  const indent = /^\s*/.exec(lines[markerIdx]!)![0];
+  lines.splice(markerIdx + 1, 0, ...imports.map((importName) => `${indent}import ${importName};`));
+  return lines.join("\n");
+}
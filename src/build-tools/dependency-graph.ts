@@ -0,0 +1,155 @@
+import { Dependencies } from "./build-tools";
+
+export type GraphFormat = "tree" | "dot" | "mermaid";
+
+export const graphFormats: GraphFormat[] = ["tree", "dot", "mermaid"];
+
+// DependencyGraph describes worker to worker RPC dependencies between components, edges are pointing
+// from the dependant component to its dependencies.
+export class DependencyGraph {
+  private readonly nodes: string[];
+  private readonly edges: Map<string, string[]>;
+
+  constructor(nodes: string[], dependencies: Dependencies) {
+    this.nodes = [...nodes].sort();
+    this.edges = new Map(this.nodes.map((node) => [node, dependencies[node] ?? []]));
+
+    for (const [node, deps] of Object.entries(dependencies)) {
+      if (!this.edges.has(node)) {
+        throw new Error(`Dependencies are defined for unknown component: ${node}`);
+      }
+      for (const dep of deps) {
+        if (!this.edges.has(dep)) {
+          throw new Error(`Component ${node} depends on unknown component: ${dep}`);
+        }
+      }
+    }
+  }
+
+  dependenciesOf(node: string): string[] {
+    return this.edges.get(node) ?? [];
+  }
+
+  dependantsOf(node: string): string[] {
+    return this.nodes.filter((other) => this.dependenciesOf(other).includes(node));
+  }
+
+  // Returns the path of the first found cycle, starting and ending with the same node
+  findCycle(): string[] | undefined {
+    const visited = new Set<string>();
+    const stack: string[] = [];
+
+    const visit = (node: string): string[] | undefined => {
+      const stackIdx = stack.indexOf(node);
+      if (stackIdx >= 0) {
+        return [...stack.slice(stackIdx), node];
+      }
+      if (visited.has(node)) {
+        return undefined;
+      }
+      visited.add(node);
+
+      stack.push(node);
+      for (const dep of this.dependenciesOf(node)) {
+        const cycle = visit(dep);
+        if (cycle !== undefined) return cycle;
+      }
+      stack.pop();
+
+      return undefined;
+    };
+
+    for (const node of this.nodes) {
+      const cycle = visit(node);
+      if (cycle !== undefined) return cycle;
+    }
+    return undefined;
+  }
+
+  validate() {
+    const cycle = this.findCycle();
+    if (cycle !== undefined) {
+      throw new Error(`Circular component dependency: ${cycle.join(" -> ")}`);
+    }
+  }
+
+  // Returns all nodes ordered so that dependencies are preceding their dependants,
+  // nodes without ordering constraints between them are ordered by name
+  topologicalOrder(): string[] {
+    this.validate();
+
+    const result: string[] = [];
+    const added = new Set<string>();
+    while (result.length < this.nodes.length) {
+      for (const node of this.nodes) {
+        if (added.has(node)) continue;
+        if (this.dependenciesOf(node).every((dep) => added.has(dep))) {
+          result.push(node);
+          added.add(node);
+          break;
+        }
+      }
+    }
+    return result;
+  }
+
+  format(format: GraphFormat): string {
+    this.validate();
+    switch (format) {
+      case "tree":
+        return this.toTree();
+      case "dot":
+        return this.toDot();
+      case "mermaid":
+        return this.toMermaid();
+    }
+  }
+
+  toTree(): string {
+    const lines: string[] = [];
+    const addChildren = (node: string, prefix: string) => {
+      const deps = this.dependenciesOf(node);
+      deps.forEach((dep, idx) => {
+        const last = idx == deps.length - 1;
+        lines.push(`${prefix}${last ? "└── " : "├── "}${dep}`);
+        addChildren(dep, prefix + (last ? "    " : "│   "));
+      });
+    };
+
+    for (const root of this.nodes.filter((node) => this.dependantsOf(node).length == 0)) {
+      lines.push(root);
+      addChildren(root, "");
+    }
+    return lines.join("\n");
+  }
+
+  toDot(): string {
+    const lines = ["digraph components {"];
+    for (const node of this.nodes) {
+      const deps = this.dependenciesOf(node);
+      if (deps.length == 0) {
+        lines.push(`  "${node}";`);
+      }
+      for (const dep of deps) {
+        lines.push(`  "${node}" -> "${dep}";`);
+      }
+    }
+    lines.push("}");
+    return lines.join("\n");
+  }
+
+  toMermaid(): string {
+    const id = (node: string) => `${node.replaceAll(/[^a-zA-Z0-9_]/g, "_")}["${node}"]`;
+    const lines = ["graph TD"];
+    for (const node of this.nodes) {
+      const deps = this.dependenciesOf(node);
+      if (deps.length == 0) {
+        lines.push(`  ${id(node)}`);
+      }
+      for (const dep of deps) {
+        lines.push(`  ${id(node)} --> ${id(dep)}`);
+      }
+    }
+    return lines.join("\n");
+  }
+}
@@ -0,0 +1,53 @@
+import fs from "node:fs";
+import path from "node:path";
+
+// Deploy state is persisted in a state file, which maps deployed component names (with the prefix and suffix of the
+// environment) to the hash of the last deployed WASM, and to the component URN and version it was deployed as. The state is only valid for the deploy target it was
+// recorded for (e.g. the golem-cli profile), so it is discarded when deploying to a different target.
+
+export interface DeployedComponent {
+  wasmHash: string;
+  componentUrn: string;
+  componentVersion: number;
+}
+
+interface DeployStateFile {
+  version: number;
+  target: string;
+  components: { [deployedName: string]: DeployedComponent };
+}
+
+const stateVersion = 1;
+
+export class DeployState {
+  private readonly statePath: string | undefined;
+  private readonly state: DeployStateFile;
+
+  // Without a state path the state is only kept in memory, e.g. for deploy targets which do not persist
+  // the components either
+  constructor(statePath: string | undefined, target: string) {
+    this.statePath = statePath;
+    this.state = { version: stateVersion, target, components: {} };
+
+    if (statePath !== undefined && fs.existsSync(statePath)) {
+      const state = JSON.parse(fs.readFileSync(statePath).toString()) as DeployStateFile;
+      if (state.version === stateVersion && state.target === target) {
+        this.state = state;
+      } else if (state.version === stateVersion) {
+        console.log(`Ignoring deploy state recorded for ${state.target} in ${statePath}`);
+      }
+    }
+  }
+
+  get(deployedName: string): DeployedComponent | undefined {
+    return this.state.components[deployedName];
+  }
+
+  set(deployedName: string, deployed: DeployedComponent) {
+    this.state.components[deployedName] = deployed;
+    if (this.statePath !== undefined) {
+      fs.mkdirSync(path.dirname(this.statePath), { recursive: true });
+      fs.writeFileSync(this.statePath, JSON.stringify(this.state, null, 2));
+    }
+  }
+}
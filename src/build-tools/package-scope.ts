@@ -0,0 +1,79 @@
+import fs from "node:fs";
+import path from "node:path";
+import { Plugin } from "rollup";
+
+// Package scope of a component: the sources it is allowed to import besides its own directory and node_modules.
+// Other project sources (e.g. src/lib/process.ts, src/build-tools or other components) are build-time modules, or
+// belong to packages not declared by the component, so importing them fails the rollup of the component.
+export interface PackageScope {
+  compName: string;
+  componentDir: string;
+  // Packages declared by the component
+  packages: { [name: string]: string };
+  // All packages of the project, used for suggesting the missing package declaration
+  projectPackages: { [name: string]: string };
+  // Sources available to every component, e.g. the lib imported by the generated cfg modules
+  common: string[];
+}
+
+// Checks the import of the resolved module, and returns the error message when it is out of the scope
+export function checkScopedImport(scope: PackageScope, id: string, importer: string): string | undefined {
+  const modulePath = path.relative(process.cwd(), id);
+  if (modulePath.split(path.sep).includes("node_modules")) {
+    return undefined;
+  }
+  if (isInside(modulePath, scope.componentDir) || scope.common.some((common) => isInside(modulePath, common))) {
+    return undefined;
+  }
+  if (Object.values(scope.packages).some((packagePath) => isInside(modulePath, packagePath))) {
+    return undefined;
+  }
+
+  const importerPath = path.relative(process.cwd(), importer);
+  const packageName = Object.entries(scope.projectPackages).find(([, packagePath]) =>
+    isInside(modulePath, packagePath),
+  )?.[0];
+  if (packageName !== undefined) {
+    return `${importerPath} imports ${modulePath} from package ${packageName}, which is not declared in the packages of component ${scope.compName}`;
+  }
+  return `${importerPath} imports ${modulePath}, which is not part of any package, so it cannot be used by component ${scope.compName} (e.g. it is only used by the build or the tests)`;
+}
+
+// Rollup plugin failing the build on imports out of the package scope of the component. The TypeScript plugin only
+// includes the sources in scope, so relative imports of other TypeScript sources are resolved here for reporting.
+export function packageScopePlugin(scope: PackageScope): Plugin {
+  return {
+    name: "package-scope",
+    async resolveId(source, importer, options) {
+      if (importer === undefined) {
+        return null;
+      }
+      const resolved = await this.resolve(source, importer, { ...options, skipSelf: true });
+      if (resolved !== null && (resolved.external || resolved.id.startsWith("\0"))) {
+        return resolved;
+      }
+      const id = resolved?.id ?? resolveTypeScriptSource(source, importer);
+      if (id === undefined) {
+        return resolved;
+      }
+      const error = checkScopedImport(scope, id, importer);
+      if (error !== undefined) {
+        this.error(error);
+      }
+      return resolved;
+    },
+  };
+}
+
+function resolveTypeScriptSource(source: string, importer: string): string | undefined {
+  if (!source.startsWith(".")) {
+    return undefined;
+  }
+  const sourcePath = path.resolve(path.dirname(importer), source);
+  return [`${sourcePath}.ts`, path.join(sourcePath, "index.ts")].find((candidate) => fs.existsSync(candidate));
+}
+
+export function isInside(modulePath: string, dir: string): boolean {
+  const relative = path.relative(dir, modulePath);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
@@ -0,0 +1,459 @@
+import fs from "node:fs";
+import path from "node:path";
+import { Dependencies, didYouMean } from "./build-tools";
+import { DependencyGraph } from "./dependency-graph";
+import { parseSize } from "./build-report";
+
+export const defaultProjectManifest = "golem-project.json";
+
+export interface ComponentConfig {
+  // Worker to worker RPC dependencies
+  dependencies: string[];
+  // Shared internal packages imported by the component
+  packages?: string[];
+  // Limits of the component sizes, checked by the build, see the analyze command for the breakdown of the sizes
+  sizeBudget?: SizeBudget;
+}
+
+// Sizes are given in bytes, or as strings with units, e.g. "512 KiB" or "12 MiB"
+export interface SizeBudget {
+  // Rolled-up JavaScript bundle (out/build/<component>/main.js)
+  bundle?: number | string;
+  // Final component WASM, after stub composition (out/components/<component>.wasm)
+  wasm?: number | string;
+}
+
+// Shared code of the components, which components have to declare before importing it
+export interface PackageConfig {
+  // Source file or directory of the package
+  path: string;
+  // Packages imported by the package, these are also available to the components declaring it
+  packages?: string[];
+}
+
+export interface DeployConfig {
+  // golem-cli profile, when not defined, the default profile is used
+  profile?: string;
+  // Deploy to and test against the local Golem stand-in (see src/local-golem) instead of a Golem cluster
+  local: boolean;
+  // Components are deployed as <prefix><component name><suffix>
+  componentNamePrefix: string;
+  componentNameSuffix: string;
+  // Additional environment variables for the created workers
+  workerEnv: { [key: string]: string };
+}
+
+// Deploy target, either the default one defined by deploy, or one of the named environments
+export interface DeployEnvironment extends DeployConfig {
+  name: string;
+}
+
+export const defaultEnvironmentName = "default";
+
+// Selected environment for the processes started by build.ts, e.g. for the tests
+export const environmentEnvVar = "GOLEM_PROJECT_ENVIRONMENT";
+
+export interface Project {
+  manifestPath: string;
+  namespace: string;
+  outDir: string;
+  componentsDir: string;
+  componentTemplatesDir: string;
+  packages: { [name: string]: PackageConfig };
+  components: { [name: string]: ComponentConfig };
+  deploy: DeployConfig;
+  environments: { [name: string]: DeployConfig };
+}
+
+const projectKeys = [
+  "namespace",
+  "outDir",
+  "componentsDir",
+  "componentTemplatesDir",
+  "packages",
+  "components",
+  "deploy",
+  "environments",
+];
+const packageKeys = ["path", "packages"];
+const componentKeys = ["dependencies", "packages", "sizeBudget"];
+const sizeBudgetKeys = ["bundle", "wasm"];
+const deployKeys = ["profile", "local", "componentNamePrefix", "componentNameSuffix", "workerEnv"];
+
+export function loadProject(manifestPath: string = defaultProjectManifest): Project {
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`Project manifest not found: ${manifestPath}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(manifestPath).toString());
+  } catch (error) {
+    throw new Error(
+      `Failed to parse project manifest ${manifestPath}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+
+  const validation = new Validation();
+  const project = parseProject(validation, manifestPath, raw);
+  if (project !== undefined) {
+    validateComponents(validation, project);
+  }
+  validation.throwIfFailed(manifestPath);
+
+  return project as Project;
+}
+
+// Writes back the component definitions, while keeping other properties of the manifest untouched
+export function saveProjectComponents(project: Project) {
+  const raw = JSON.parse(fs.readFileSync(project.manifestPath).toString());
+  raw["components"] = project.components;
+  fs.writeFileSync(project.manifestPath, formatJson(raw));
+}
+
+// Formats JSON the same way as prettier does for the manifest: string arrays are kept on one line
+export function formatJson(value: unknown): string {
+  return (
+    JSON.stringify(value, null, 2).replace(
+      /\[\s*("[^"]*"(?:,\s*"[^"]*")*)\s*\]/g,
+      (_, items: string) => `[${items.split(/",\s*"/).join('", "')}]`,
+    ) + "\n"
+  );
+}
+
+// Returns the size budget of the component in bytes, the manifest is already validated by loadProject
+export function componentSizeBudget(component: ComponentConfig): { bundle?: number; wasm?: number } {
+  return {
+    bundle: component.sizeBudget?.bundle !== undefined ? parseSize(component.sizeBudget.bundle) : undefined,
+    wasm: component.sizeBudget?.wasm !== undefined ? parseSize(component.sizeBudget.wasm) : undefined,
+  };
+}
+
+// Returns the packages available to a component declaring the given ones: the declared packages, and the ones they
+// import, transitively
+export function packageClosure(project: Project, packageNames: string[]): string[] {
+  const result: string[] = [];
+  const visit = (name: string) => {
+    if (result.includes(name)) return;
+    result.push(name);
+    for (const dep of project.packages[name]?.packages ?? []) {
+      visit(dep);
+    }
+  };
+  packageNames.forEach(visit);
+  return result;
+}
+
+export function projectDependencies(project: Project): Dependencies {
+  const dependencies: Dependencies = {};
+  for (const [compName, component] of Object.entries(project.components)) {
+    if (component.dependencies.length > 0) {
+      dependencies[compName] = component.dependencies;
+    }
+  }
+  return dependencies;
+}
+
+// Returns the named environment, or the default one defined by deploy when no name is given
+export function deployEnvironment(project: Project, name: string | undefined): DeployEnvironment {
+  if (name === undefined || name === defaultEnvironmentName) {
+    return { name: defaultEnvironmentName, ...project.deploy };
+  }
+  const environment = project.environments[name];
+  if (environment === undefined) {
+    const names = Object.keys(project.environments);
+    throw new Error(`Unknown environment: ${name}${didYouMean(name, names)}`);
+  }
+  return { name, ...environment };
+}
+
+export function deployedComponentName(environment: DeployConfig, compName: string): string {
+  return `${environment.componentNamePrefix}${compName}${environment.componentNameSuffix}`;
+}
+
+// Maps a deployed component name back to the project component, using the prefixes and suffixes of all environments
+export function projectComponentName(project: Project, deployedName: string): string | undefined {
+  for (const environment of [project.deploy, ...Object.values(project.environments)]) {
+    const compName = Object.keys(project.components).find(
+      (compName) => deployedComponentName(environment, compName) === deployedName,
+    );
+    if (compName !== undefined) {
+      return compName;
+    }
+  }
+  return undefined;
+}
+
+function parseProject(validation: Validation, manifestPath: string, raw: unknown): Project | undefined {
+  if (!isObject(raw)) {
+    validation.error("the manifest must be a JSON object");
+    return undefined;
+  }
+  validation.checkKeys("", raw, projectKeys);
+
+  const packages: { [name: string]: PackageConfig } = {};
+  const rawPackages = raw["packages"] ?? {};
+  if (!isObject(rawPackages)) {
+    validation.error("packages must be an object, with package names as keys");
+  } else {
+    for (const [name, rawPackage] of Object.entries(rawPackages)) {
+      if (!isObject(rawPackage)) {
+        validation.error(`packages.${name} must be an object`);
+        continue;
+      }
+      validation.checkKeys(`packages.${name}.`, rawPackage, packageKeys);
+      const packagePath = validation.optionalString(`packages.${name}.path`, rawPackage["path"]);
+      if (packagePath === undefined) {
+        validation.error(`packages.${name}.path must be the source file or directory of the package`);
+      } else if (!fs.existsSync(packagePath)) {
+        validation.error(`packages.${name}.path does not exist: ${packagePath}`);
+      } else {
+        packages[name] = { path: path.normalize(packagePath) };
+      }
+      const packageDeps = rawPackage["packages"];
+      if (packageDeps !== undefined) {
+        if (!Array.isArray(packageDeps) || !packageDeps.every((dep) => typeof dep === "string")) {
+          validation.error(`packages.${name}.packages must be an array of package names`);
+        } else if (packages[name] !== undefined) {
+          packages[name].packages = packageDeps;
+        }
+      }
+    }
+  }
+
+  const components: { [name: string]: ComponentConfig } = {};
+  const rawComponents = raw["components"];
+  if (!isObject(rawComponents)) {
+    validation.error("components must be an object, with component names as keys");
+  } else {
+    for (const [compName, rawComponent] of Object.entries(rawComponents)) {
+      const component = parseComponent(validation, `components.${compName}`, rawComponent);
+      if (component !== undefined) {
+        components[compName] = component;
+      }
+    }
+  }
+
+  const deploy = parseDeployConfig(validation, "deploy", raw["deploy"] ?? {});
+
+  const environments: { [name: string]: DeployConfig } = {};
+  const rawEnvironments = raw["environments"] ?? {};
+  if (!isObject(rawEnvironments)) {
+    validation.error("environments must be an object, with environment names as keys");
+  } else {
+    for (const [name, rawEnvironment] of Object.entries(rawEnvironments)) {
+      if (name === defaultEnvironmentName) {
+        validation.error(`environments.${name}: the default environment is defined by deploy`);
+      }
+      environments[name] = parseDeployConfig(validation, `environments.${name}`, rawEnvironment);
+    }
+  }
+
+  return {
+    manifestPath,
+    namespace: validation.string("namespace", raw["namespace"], "golem"),
+    outDir: validation.string("outDir", raw["outDir"], "out"),
+    componentsDir: validation.string("componentsDir", raw["componentsDir"], path.join("src", "components")),
+    componentTemplatesDir: validation.string(
+      "componentTemplatesDir",
+      raw["componentTemplatesDir"],
+      "component-template",
+    ),
+    packages,
+    components,
+    deploy,
+    environments,
+  };
+}
+
+function parseDeployConfig(validation: Validation, name: string, raw: unknown): DeployConfig {
+  const deploy: DeployConfig = { local: false, componentNamePrefix: "", componentNameSuffix: "", workerEnv: {} };
+  if (!isObject(raw)) {
+    validation.error(`${name} must be an object`);
+    return deploy;
+  }
+
+  validation.checkKeys(`${name}.`, raw, deployKeys);
+  deploy.profile = validation.optionalString(`${name}.profile`, raw["profile"]);
+  deploy.local = validation.boolean(`${name}.local`, raw["local"], false);
+  deploy.componentNamePrefix = validation.string(`${name}.componentNamePrefix`, raw["componentNamePrefix"], "");
+  deploy.componentNameSuffix = validation.string(`${name}.componentNameSuffix`, raw["componentNameSuffix"], "");
+
+  const rawWorkerEnv = raw["workerEnv"] ?? {};
+  if (!isObject(rawWorkerEnv) || !Object.values(rawWorkerEnv).every((value) => typeof value === "string")) {
+    validation.error(`${name}.workerEnv must be an object with string values`);
+  } else {
+    deploy.workerEnv = rawWorkerEnv as { [key: string]: string };
+  }
+
+  return deploy;
+}
+
+function parseComponent(validation: Validation, name: string, raw: unknown): ComponentConfig | undefined {
+  if (!isObject(raw)) {
+    validation.error(`${name} must be an object`);
+    return undefined;
+  }
+  validation.checkKeys(`${name}.`, raw, componentKeys);
+
+  const component: ComponentConfig = { dependencies: [] };
+  const rawDependencies = raw["dependencies"] ?? [];
+  if (!Array.isArray(rawDependencies) || !rawDependencies.every((dep) => typeof dep === "string")) {
+    validation.error(`${name}.dependencies must be an array of component names`);
+  } else {
+    component.dependencies = rawDependencies;
+  }
+
+  const rawPackages = raw["packages"];
+  if (rawPackages !== undefined) {
+    if (!Array.isArray(rawPackages) || !rawPackages.every((name) => typeof name === "string")) {
+      validation.error(`${name}.packages must be an array of package names`);
+    } else {
+      component.packages = rawPackages;
+    }
+  }
+
+  const rawSizeBudget = raw["sizeBudget"];
+  if (rawSizeBudget !== undefined) {
+    if (!isObject(rawSizeBudget)) {
+      validation.error(`${name}.sizeBudget must be an object`);
+    } else {
+      validation.checkKeys(`${name}.sizeBudget.`, rawSizeBudget, sizeBudgetKeys);
+      for (const key of sizeBudgetKeys) {
+        const value = rawSizeBudget[key];
+        if (value !== undefined && parseSize(value) === undefined) {
+          validation.error(`${name}.sizeBudget.${key} must be a size in bytes, or a string like "512 KiB" or "12 MiB"`);
+        }
+      }
+      component.sizeBudget = rawSizeBudget as SizeBudget;
+    }
+  }
+
+  return component;
+}
+
+function validateComponents(validation: Validation, project: Project) {
+  const compNames = Object.keys(project.components);
+
+  for (const [compName, component] of Object.entries(project.components)) {
+    const seen = new Set<string>();
+    for (const dep of component.dependencies) {
+      if (dep === compName) {
+        validation.error(`component ${compName} depends on itself`);
+      } else if (project.components[dep] === undefined) {
+        validation.error(`component ${compName} depends on unknown component: ${dep}${didYouMean(dep, compNames)}`);
+      }
+      if (seen.has(dep)) {
+        validation.error(`component ${compName} lists dependency ${dep} more than once`);
+      }
+      seen.add(dep);
+    }
+  }
+
+  const packageNames = Object.keys(project.packages);
+  for (const [name, packageConfig] of Object.entries(project.packages)) {
+    for (const packageName of packageConfig.packages ?? []) {
+      if (project.packages[packageName] === undefined) {
+        validation.error(
+          `package ${name} uses unknown package: ${packageName}${didYouMean(packageName, packageNames)}`,
+        );
+      }
+    }
+  }
+  for (const [compName, component] of Object.entries(project.components)) {
+    for (const packageName of component.packages ?? []) {
+      if (project.packages[packageName] === undefined) {
+        validation.error(
+          `component ${compName} uses unknown package: ${packageName}${didYouMean(packageName, packageNames)}`,
+        );
+      }
+    }
+  }
+
+  // Unknown and self dependencies are already reported above, so they are left out from the cycle detection
+  const knownDependencies: Dependencies = {};
+  for (const [compName, component] of Object.entries(project.components)) {
+    knownDependencies[compName] = component.dependencies.filter(
+      (dep) => dep !== compName && project.components[dep] !== undefined,
+    );
+  }
+  const cycle = new DependencyGraph(compNames, knownDependencies).findCycle();
+  if (cycle !== undefined) {
+    validation.error(`circular component dependency: ${cycle.join(" -> ")}`);
+  }
+
+  const compDirNames = fs.existsSync(project.componentsDir)
+    ? fs
+        .readdirSync(project.componentsDir, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name)
+    : [];
+
+  for (const dirName of compDirNames) {
+    if (project.components[dirName] === undefined) {
+      validation.error(
+        `component directory ${path.join(project.componentsDir, dirName)} is not listed in components${didYouMean(dirName, compNames)}`,
+      );
+    }
+  }
+
+  for (const compName of compNames) {
+    if (!compDirNames.includes(compName)) {
+      validation.error(
+        `component ${compName} does not exist in ${project.componentsDir}${didYouMean(compName, compDirNames)}`,
+      );
+    }
+  }
+}
+
+class Validation {
+  private readonly errors: string[] = [];
+
+  error(message: string) {
+    this.errors.push(message);
+  }
+
+  checkKeys(prefix: string, raw: { [key: string]: unknown }, knownKeys: string[]) {
+    for (const key of Object.keys(raw)) {
+      if (!knownKeys.includes(key)) {
+        this.error(`unknown property: ${prefix}${key}${didYouMean(key, knownKeys)}`);
+      }
+    }
+  }
+
+  string(name: string, raw: unknown, defaultValue: string): string {
+    return this.optionalString(name, raw) ?? defaultValue;
+  }
+
+  optionalString(name: string, raw: unknown): string | undefined {
+    if (raw === undefined) {
+      return undefined;
+    }
+    if (typeof raw !== "string") {
+      this.error(`${name} must be a string`);
+      return undefined;
+    }
+    return raw;
+  }
+
+  boolean(name: string, raw: unknown, defaultValue: boolean): boolean {
+    if (raw === undefined) {
+      return defaultValue;
+    }
+    if (typeof raw !== "boolean") {
+      this.error(`${name} must be a boolean`);
+      return defaultValue;
+    }
+    return raw;
+  }
+
+  throwIfFailed(manifestPath: string) {
+    if (this.errors.length > 0) {
+      throw new Error(`Invalid project manifest ${manifestPath}:\n${this.errors.map((e) => `  - ${e}`).join("\n")}`);
+    }
+  }
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
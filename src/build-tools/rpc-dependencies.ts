@@ -0,0 +1,71 @@
+import path from "node:path";
+import { Dependencies } from "./build-tools";
+import { Project } from "./project";
+import { parseWitWorldFile, stubImportComponent } from "./wit";
+
+export type RpcDependencyIssueKind =
+  // The WIT world imports a stub that is not declared as dependency in the project manifest
+  | "undeclared"
+  // The dependency is declared in the project manifest, but its stub is not imported in the WIT world
+  | "unused";
+
+export interface RpcDependencyIssue {
+  kind: RpcDependencyIssueKind;
+  component: string;
+  dependency: string;
+  message: string;
+}
+
+export function componentMainWit(project: Project, compName: string): string {
+  return path.join(project.componentsDir, compName, "wit", "main.wit");
+}
+
+// Collects the RPC dependencies of the components, based on the stub imports of the WIT worlds
+export function inferRpcDependencies(project: Project): Dependencies {
+  const dependencies: Dependencies = {};
+  for (const compName of Object.keys(project.components)) {
+    const world = parseWitWorldFile(componentMainWit(project, compName));
+    const deps = world.imports
+      .map((importName) => stubImportComponent(project.namespace, importName))
+      .filter((dep) => dep !== undefined);
+    if (deps.length > 0) {
+      dependencies[compName] = deps;
+    }
+  }
+  return dependencies;
+}
+
+export function checkRpcDependencies(project: Project): RpcDependencyIssue[] {
+  const inferred = inferRpcDependencies(project);
+  const issues: RpcDependencyIssue[] = [];
+
+  for (const [compName, component] of Object.entries(project.components)) {
+    const mainWit = componentMainWit(project, compName);
+    const imported = inferred[compName] ?? [];
+
+    for (const dep of imported) {
+      if (component.dependencies.includes(dep)) continue;
+      issues.push({
+        kind: "undeclared",
+        component: compName,
+        dependency: dep,
+        message:
+          project.components[dep] === undefined
+            ? `${mainWit} imports the stub of unknown component: ${dep}`
+            : `${mainWit} imports the stub of ${dep}, but it is not declared as dependency of ${compName} in ${project.manifestPath}`,
+      });
+    }
+
+    for (const dep of component.dependencies) {
+      if (imported.includes(dep)) continue;
+      issues.push({
+        kind: "unused",
+        component: compName,
+        dependency: dep,
+        message: `${compName} declares dependency on ${dep} in ${project.manifestPath}, but ${mainWit} does not import its stub`,
+      });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,171 @@
+import path from "node:path";
+import { dashToPascal } from "./component-cfg";
+import { WitInterface, WitType } from "./wit";
+
+// Generates the typed test client module of a component from its exported interfaces: a worker class with a property
+// for every interface (e.g. componentOneApi for component-one-api), and the types used by the functions. The function
+// types are embedded into the module, and are used for encoding the arguments and decoding the results.
+export function generateTestClientModule(
+  modulePath: string,
+  clientLibPath: string,
+  compName: string,
+  packageName: string,
+  interfaces: WitInterface[],
+): string {
+  let clientLibImport = path.relative(path.dirname(modulePath), clientLibPath).replace(/\.ts$/, "");
+  clientLibImport = clientLibImport.split(path.sep).join("/");
+  if (!clientLibImport.startsWith(".")) {
+    clientLibImport = `./${clientLibImport}`;
+  }
+
+  const types = new TypeDeclarations();
+  const workerClass = `${dashToPascal(compName)}Worker`;
+
+  const functionsLines = ["const functions: { [interfaceName: string]: { [functionName: string]: WitFunction } } = {"];
+  const classLines = [
+    `export class ${workerClass} extends TestWorker {`,
+    `  static readonly componentName = "${compName}";`,
+    "",
+    "  constructor(client: GolemTestClient, workerName: string) {",
+    `    super(client, ${workerClass}.componentName, workerName);`,
+    "  }",
+  ];
+
+  for (const witInterface of interfaces) {
+    const interfaceName = `${packageName}/${witInterface.name}`;
+    functionsLines.push(`  "${witInterface.name}": {`);
+    classLines.push("", `  readonly ${camelCase(witInterface.name)} = {`);
+
+    for (const fn of witInterface.functions) {
+      functionsLines.push(`    "${fn.name}": ${JSON.stringify(fn)},`);
+
+      // Trailing options can be left out, e.g. the trace parents of the example components
+      let firstOptional = fn.params.length;
+      while (firstOptional > 0 && isOmittable(fn.params[firstOptional - 1]!.type)) {
+        firstOptional--;
+      }
+      const params = fn.params
+        .map((param, idx) =>
+          idx >= firstOptional && param.type.kind === "option"
+            ? `${camelCase(param.name)}?: ${types.tsType(param.type.inner)}`
+            : `${camelCase(param.name)}: ${types.tsType(param.type)}`,
+        )
+        .join(", ");
+      const result = fn.result !== undefined ? types.tsType(fn.result) : "void";
+      const args = fn.params.map((param) => camelCase(param.name)).join(", ");
+      classLines.push(
+        `    ${camelCase(fn.name)}: (${params}): Promise<${result}> =>`,
+        `      this.invoke("${interfaceName}", functions["${witInterface.name}"]!["${fn.name}"]!, [${args}]) as Promise<${result}>,`,
+      );
+    }
+
+    functionsLines.push("  },");
+    classLines.push("  };");
+  }
+
+  functionsLines.push("};");
+  classLines.push("}");
+
+  const lines = [
+    "// Generated by build.ts from the exported interfaces of the component, do not edit!",
+    "",
+    `import { GolemTestClient, Result, TestWorker, WitFunction } from "${clientLibImport}";`,
+    "",
+    ...types.declarations.flatMap((declaration) => [declaration, ""]),
+    ...functionsLines,
+    "",
+    ...classLines,
+  ];
+
+  return lines.join("\n") + "\n";
+}
+
+// Options are represented as the value or undefined, except for nested ones
+function isOmittable(type: WitType): boolean {
+  return type.kind === "option" && type.inner.kind !== "option";
+}
+
+function camelCase(name: string): string {
+  return name.replaceAll(/-([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+// Named types (records, variants, enums and flags) are declared once, using the same representation as the
+// jco bindings, apart from results, which are returned as Result values instead of throwing
+class TypeDeclarations {
+  readonly declarations: string[] = [];
+  private readonly declared = new Map<string, WitType>();
+
+  tsType(type: WitType): string {
+    switch (type.kind) {
+      case "bool":
+        return "boolean";
+      case "u64":
+      case "s64":
+        return "bigint";
+      case "char":
+      case "string":
+        return "string";
+      case "list":
+        return type.element.kind === "u8" ? "Uint8Array" : `${this.tsType(type.element)}[]`;
+      case "option":
+        return type.inner.kind === "option"
+          ? `{ tag: "some"; val: ${this.tsType(type.inner)} } | { tag: "none" }`
+          : `${this.tsType(type.inner)} | undefined`;
+      case "result":
+        return `Result<${type.ok !== undefined ? this.tsType(type.ok) : "undefined"}, ${type.err !== undefined ? this.tsType(type.err) : "undefined"}>`;
+      case "tuple":
+        return `[${type.items.map((item) => this.tsType(item)).join(", ")}]`;
+      case "record":
+      case "variant":
+      case "enum":
+      case "flags":
+        return this.declare(type);
+      case "handle":
+        return "never";
+      default:
+        return "number";
+    }
+  }
+
+  private declare(type: WitType & { name: string }): string {
+    const name = dashToPascal(type.name);
+    const declared = this.declared.get(name);
+    if (declared !== undefined) {
+      if (JSON.stringify(declared) !== JSON.stringify(type)) {
+        throw new Error(`Conflicting type definitions for ${type.name} in the exported interfaces`);
+      }
+      return name;
+    }
+    this.declared.set(name, type);
+
+    switch (type.kind) {
+      case "record":
+        this.declarations.push(
+          [
+            `export interface ${name} {`,
+            ...type.fields.map((field) => `  ${camelCase(field.name)}: ${this.tsType(field.type)};`),
+            "}",
+          ].join("\n"),
+        );
+        break;
+      case "variant":
+        this.declarations.push(
+          `export type ${name} =\n` +
+            type.cases
+              .map((c) => `  | { tag: "${c.name}"${c.type !== undefined ? `; val: ${this.tsType(c.type)}` : ""} }`)
+              .join("\n") +
+            ";",
+        );
+        break;
+      case "enum":
+        this.declarations.push(`export type ${name} = ${type.cases.map((c) => `"${c}"`).join(" | ")};`);
+        break;
+      case "flags":
+        this.declarations.push(
+          [`export interface ${name} {`, ...type.flags.map((flag) => `  ${camelCase(flag)}: boolean;`), "}"].join("\n"),
+        );
+        break;
+    }
+    return name;
+  }
+}
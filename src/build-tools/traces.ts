@@ -0,0 +1,116 @@
+import { formatTable } from "./build-report";
+
+// Rebuilds the call trees of traced invocations from the trace-span entries logged by the components (see
+// src/lib/trace.ts), e.g.:
+//
+//   trace-span worker=worker-1 trace=4bf92f3577b34da6a3ce929d0e0e4736 span=00f067aa0ba902b7 name=component-one.add
+//     start=1718000000000 durationMs=12 status=ok
+//
+// Entries can come from the worker logs of the local Golem, or from saved worker output, where they may have a
+// prefix, e.g. the level and context added by golem-cli.
+
+// Message of the span entries, the same as in src/lib/trace.ts, which can only be imported by the components
+const traceSpanMessage = "trace-span";
+
+export interface TraceSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  worker?: string;
+  // Unix time in milliseconds
+  start: number;
+  durationMs: number;
+  status: string;
+  error?: string;
+}
+
+export interface TraceNode {
+  span: TraceSpan;
+  children: TraceNode[];
+}
+
+// Returns the span of the log entry message or output line, if it is a trace-span entry
+export function parseTraceSpan(line: string): TraceSpan | undefined {
+  const match = new RegExp(`(?:^|\\s)${traceSpanMessage}\\s(.*)$`).exec(line);
+  if (match === null) {
+    return undefined;
+  }
+
+  const fields: { [key: string]: string } = {};
+  for (const [, key, value] of (match[1] as string).matchAll(/(\w+)=("(?:[^"\\]|\\.)*"|\S+)/g)) {
+    fields[key as string] = value!.startsWith('"') ? (JSON.parse(value!) as string) : value!;
+  }
+
+  const { trace, span, parent, name, worker, start, durationMs, status, error } = fields;
+  if (trace === undefined || span === undefined || name === undefined) {
+    return undefined;
+  }
+  return {
+    traceId: trace,
+    spanId: span,
+    ...(parent !== undefined ? { parentSpanId: parent } : {}),
+    name,
+    ...(worker !== undefined ? { worker } : {}),
+    start: Number(start ?? 0),
+    durationMs: Number(durationMs ?? 0),
+    status: status ?? "ok",
+    ...(error !== undefined ? { error } : {}),
+  };
+}
+
+export function parseTraceSpans(lines: string[]): TraceSpan[] {
+  return lines.flatMap((line) => parseTraceSpan(line) ?? []);
+}
+
+// Builds the call trees ordered by start time, spans whose parent is not found (e.g. the caller is not traced, or
+// its output was not collected) are roots
+export function traceTrees(spans: TraceSpan[]): TraceNode[] {
+  const nodes = new Map<string, TraceNode>();
+  for (const span of spans) {
+    nodes.set(`${span.traceId}/${span.spanId}`, { span, children: [] });
+  }
+
+  const roots: TraceNode[] = [];
+  for (const node of nodes.values()) {
+    const parent =
+      node.span.parentSpanId !== undefined ? nodes.get(`${node.span.traceId}/${node.span.parentSpanId}`) : undefined;
+    (parent?.children ?? roots).push(node);
+  }
+
+  const sort = (nodes: TraceNode[]) => {
+    nodes.sort((a, b) => a.span.start - b.span.start);
+    nodes.forEach((node) => sort(node.children));
+  };
+  sort(roots);
+  return roots;
+}
+
+// Formats every trace as a table of its spans, indented by their depth, with start times relative to the root
+export function formatTraceTrees(roots: TraceNode[]): string[] {
+  const lines: string[] = [];
+  for (const root of roots) {
+    const rows: string[][] = [];
+    const addRows = (node: TraceNode, depth: number) => {
+      const span = node.span;
+      rows.push([
+        `${"  ".repeat(depth)}${span.name}`,
+        span.worker ?? "",
+        `+${span.start - root.span.start} ms`,
+        `${span.durationMs} ms`,
+        span.error !== undefined ? `${span.status}: ${span.error}` : span.status,
+      ]);
+      node.children.forEach((child) => addRows(child, depth + 1));
+    };
+    addRows(root, 0);
+
+    lines.push(`Trace ${root.span.traceId} (${new Date(root.span.start).toISOString()})`);
+    lines.push(
+      ...formatTable(["Span", "Worker", "Start", "Duration", "Status"], rows, [false, false, true, true, false]).map(
+        (line) => `  ${line}`,
+      ),
+      "",
+    );
+  }
+  return lines;
+}
@@ -0,0 +1,75 @@
+import fs from "node:fs";
+import path from "node:path";
+
+export interface WatchOptions {
+  paths: string[];
+  // Changes of ignored paths are not reported
+  ignore?: (path: string) => boolean;
+  // Called once after the watchers are started, changes happening meanwhile are reported after it finished
+  onStart?: () => Promise<void>;
+  // Time to wait for more changes before calling onChange
+  debounceMs?: number;
+  // Called with the changed paths. Calls are never overlapping: changes happening while the callback is running are
+  // collected and reported in the next call. Errors are logged, and do not stop watching.
+  onChange: (changedPaths: string[]) => Promise<void>;
+}
+
+// Watches the given paths recursively until the process is interrupted (SIGINT)
+export function watch(options: WatchOptions): Promise<void> {
+  const debounceMs = options.debounceMs ?? 200;
+  const changedPaths = new Set<string>();
+  let timeout: NodeJS.Timeout | undefined;
+  let running: Promise<void> | undefined;
+  let stopped = false;
+
+  const start = (run: () => Promise<void>) => {
+    running = run()
+      .catch((error) => console.error(error))
+      .finally(() => {
+        running = undefined;
+        flush();
+      });
+  };
+
+  const flush = () => {
+    timeout = undefined;
+    if (stopped || running !== undefined || changedPaths.size == 0) return;
+
+    const paths = Array.from(changedPaths).sort();
+    changedPaths.clear();
+    start(() => options.onChange(paths));
+  };
+
+  const watchers = options.paths
+    .filter((watchedPath) => fs.existsSync(watchedPath))
+    .map((watchedPath) => {
+      // Watched files are reporting their own name as the changed one
+      const isFile = fs.statSync(watchedPath).isFile();
+      return fs.watch(watchedPath, { recursive: true }, (_, fileName) => {
+        const changedPath = fileName !== null && !isFile ? path.join(watchedPath, fileName.toString()) : watchedPath;
+        if (options.ignore !== undefined && options.ignore(changedPath)) return;
+
+        changedPaths.add(changedPath);
+        if (timeout !== undefined) clearTimeout(timeout);
+        timeout = setTimeout(flush, debounceMs);
+      });
+    });
+
+  console.log(`Watching for changes in: ${options.paths.join(", ")} (press Ctrl-C to stop)`);
+
+  if (options.onStart !== undefined) {
+    start(options.onStart);
+  }
+
+  return new Promise((resolve) => {
+    process.once("SIGINT", () => {
+      stopped = true;
+      if (timeout !== undefined) clearTimeout(timeout);
+      for (const watcher of watchers) {
+        watcher.close();
+      }
+      console.log("Stopped watching");
+      void (running ?? Promise.resolve()).finally(resolve);
+    });
+  });
+}
@@ -0,0 +1,401 @@
+import fs from "node:fs";
+
+export interface WitWorld {
+  // Package name without version, e.g. golem:component-one
+  packageName: string;
+  worldName: string;
+  imports: string[];
+  exports: string[];
+}
+
+// Parses the package name and the first world of a WIT file. Only the parts needed by the build tools are
+// supported: package declaration, world declaration, and import / export statements of interfaces by name.
+export function parseWitWorld(source: string): WitWorld {
+  const wit = stripComments(source);
+
+  const packageMatch = /^\s*package\s+([a-z0-9-]+:[a-z0-9-/]+)(@[^\s;]+)?\s*;/m.exec(wit);
+  if (packageMatch === null) {
+    throw new Error("Missing package declaration");
+  }
+
+  const worldMatch = /\bworld\s+([a-z0-9-]+)\s*\{/.exec(wit);
+  if (worldMatch === null) {
+    throw new Error("Missing world declaration");
+  }
+
+  const bodyStart = worldMatch.index + worldMatch[0].length;
+  const bodyEnd = findClosingBrace(wit, bodyStart);
+  const body = wit.substring(bodyStart, bodyEnd);
+
+  const items = (keyword: string) =>
+    [...body.matchAll(new RegExp(`(?:^|(?<=[;{}]))\\s*${keyword}\\s+([^;{}]+?)\\s*;`, "g"))].map(
+      (match) => match[1] as string,
+    );
+
+  return {
+    packageName: packageMatch[1] as string,
+    worldName: worldMatch[1] as string,
+    imports: items("import"),
+    exports: items("export"),
+  };
+}
+
+export function parseWitWorldFile(path: string): WitWorld {
+  try {
+    return parseWitWorld(fs.readFileSync(path).toString());
+  } catch (error) {
+    throw new Error(`Failed to parse WIT world in ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Returns the name of the component for stub imports in the form of <ns>:<comp-name>-stub/stub-<comp-name>
+export function stubImportComponent(namespace: string, importName: string): string | undefined {
+  const match = /^([a-z0-9-]+):([a-z0-9-]+)-stub\/stub-([a-z0-9-]+)$/.exec(importName);
+  if (match === null || match[1] !== namespace || match[2] !== match[3]) {
+    return undefined;
+  }
+  return match[2];
+}
+
+export function stubImport(namespace: string, compName: string): string {
+  return `${namespace}:${compName}-stub/stub-${compName}`;
+}
+
+export type WitPrimitiveType =
+  | "bool"
+  | "s8"
+  | "s16"
+  | "s32"
+  | "s64"
+  | "u8"
+  | "u16"
+  | "u32"
+  | "u64"
+  | "f32"
+  | "f64"
+  | "char"
+  | "string";
+
+// Type nodes are parameterized by the references they may contain, which are only present during parsing.
+// Missing types (e.g. of variant cases without payload) are optional properties, so types can be embedded as JSON.
+type WitTypeNode<Ref> =
+  | { kind: WitPrimitiveType }
+  | { kind: "list"; element: WitTypeNode<Ref> }
+  | { kind: "option"; inner: WitTypeNode<Ref> }
+  | { kind: "result"; ok?: WitTypeNode<Ref>; err?: WitTypeNode<Ref> }
+  | { kind: "tuple"; items: WitTypeNode<Ref>[] }
+  | { kind: "record"; name: string; fields: { name: string; type: WitTypeNode<Ref> }[] }
+  | { kind: "variant"; name: string; cases: { name: string; type?: WitTypeNode<Ref> }[] }
+  | { kind: "enum"; name: string; cases: string[] }
+  | { kind: "flags"; name: string; flags: string[] }
+  | { kind: "handle"; resource: string }
+  | Ref;
+
+export type WitType = WitTypeNode<never>;
+
+export interface WitFunction {
+  name: string;
+  params: { name: string; type: WitType }[];
+  result?: WitType;
+}
+
+export interface WitInterface {
+  name: string;
+  functions: WitFunction[];
+}
+
+const primitiveTypes: { [name: string]: WitPrimitiveType } = {
+  bool: "bool",
+  s8: "s8",
+  s16: "s16",
+  s32: "s32",
+  s64: "s64",
+  u8: "u8",
+  u16: "u16",
+  u32: "u32",
+  u64: "u64",
+  f32: "f32",
+  f64: "f64",
+  float32: "f32",
+  float64: "f64",
+  char: "char",
+  string: "string",
+};
+
+// Parses the interfaces defined in a WIT file, with the types and functions defined in them. Types used from
+// other interfaces are not supported, they are reported as errors when referenced by a function.
+export function parseWitInterfaces(source: string): WitInterface[] {
+  const wit = stripComments(source);
+  const interfaces: WitInterface[] = [];
+  for (const match of wit.matchAll(/\binterface\s+(%?[a-z0-9-]+)\s*\{/g)) {
+    const bodyStart = match.index + match[0].length;
+    const body = wit.substring(bodyStart, findClosingBrace(wit, bodyStart));
+    const name = unescapeId(match[1] as string);
+    try {
+      interfaces.push({ name, functions: new InterfaceParser(body).parse() });
+    } catch (error) {
+      throw new Error(`Failed to parse interface ${name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return interfaces;
+}
+
+export function parseWitInterfacesFile(path: string): WitInterface[] {
+  try {
+    return parseWitInterfaces(fs.readFileSync(path).toString());
+  } catch (error) {
+    throw new Error(`Failed to parse WIT interfaces in ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+type ParsedType = WitTypeNode<{ kind: "named"; name: string }>;
+
+class InterfaceParser {
+  private readonly tokens: string[];
+  private pos = 0;
+  private readonly types = new Map<string, ParsedType>();
+  private readonly functions: { name: string; params: { name: string; type: ParsedType }[]; result?: ParsedType }[] =
+    [];
+
+  constructor(body: string) {
+    this.tokens = body.match(/->|%?[a-zA-Z0-9_-]+|@[^\s;,{}()<>]+|\S/g) ?? [];
+  }
+
+  parse(): WitFunction[] {
+    while (this.peek() !== undefined) {
+      this.parseItem();
+    }
+
+    return this.functions.map((fn) => ({
+      name: fn.name,
+      params: fn.params.map((param) => ({ name: param.name, type: this.resolve(param.type) })),
+      result: fn.result !== undefined ? this.resolve(fn.result) : undefined,
+    }));
+  }
+
+  private parseItem() {
+    const keyword = this.next();
+    switch (keyword) {
+      case "use":
+        while (this.next() !== ";");
+        return;
+      case "type": {
+        const name = this.id();
+        this.expect("=");
+        this.types.set(name, this.type());
+        this.expect(";");
+        return;
+      }
+      case "record": {
+        const name = this.id();
+        const fields = this.list("{", "}", () => {
+          const fieldName = this.id();
+          this.expect(":");
+          return { name: fieldName, type: this.type() };
+        });
+        this.types.set(name, { kind: "record", name, fields });
+        return;
+      }
+      case "variant": {
+        const name = this.id();
+        const cases = this.list("{", "}", () => {
+          const caseName = this.id();
+          let type: ParsedType | undefined;
+          if (this.peek() === "(") {
+            this.next();
+            type = this.type();
+            this.expect(")");
+          }
+          return { name: caseName, type };
+        });
+        this.types.set(name, { kind: "variant", name, cases });
+        return;
+      }
+      case "enum": {
+        const name = this.id();
+        this.types.set(name, { kind: "enum", name, cases: this.list("{", "}", () => this.id()) });
+        return;
+      }
+      case "flags": {
+        const name = this.id();
+        this.types.set(name, { kind: "flags", name, flags: this.list("{", "}", () => this.id()) });
+        return;
+      }
+      case "resource": {
+        const name = this.id();
+        this.types.set(name, { kind: "handle", resource: name });
+        if (this.next() === "{") {
+          let depth = 1;
+          while (depth > 0) {
+            const token = this.next();
+            if (token === "{") depth++;
+            if (token === "}") depth--;
+          }
+        }
+        return;
+      }
+      default: {
+        const name = unescapeId(keyword);
+        this.expect(":");
+        this.expect("func");
+        const params = this.list("(", ")", () => {
+          const paramName = this.id();
+          this.expect(":");
+          return { name: paramName, type: this.type() };
+        });
+        let result: ParsedType | undefined;
+        if (this.peek() === "->") {
+          this.next();
+          if (this.peek() === "(") {
+            throw new Error(`Named results are not supported: ${name}`);
+          }
+          result = this.type();
+        }
+        this.expect(";");
+        this.functions.push({ name, params, result });
+      }
+    }
+  }
+
+  private type(): ParsedType {
+    const name = this.id();
+    const primitive = primitiveTypes[name];
+    if (primitive !== undefined) {
+      return { kind: primitive };
+    }
+
+    switch (name) {
+      case "list": {
+        this.expect("<");
+        const element = this.type();
+        this.expect(">");
+        return { kind: "list", element };
+      }
+      case "option": {
+        this.expect("<");
+        const inner = this.type();
+        this.expect(">");
+        return { kind: "option", inner };
+      }
+      case "tuple":
+        return { kind: "tuple", items: this.list("<", ">", () => this.type()) };
+      case "result": {
+        if (this.peek() !== "<") {
+          return { kind: "result", ok: undefined, err: undefined };
+        }
+        this.next();
+        const ok = this.peek() === "_" ? (this.next(), undefined) : this.type();
+        let err: ParsedType | undefined;
+        if (this.peek() === ",") {
+          this.next();
+          err = this.type();
+        }
+        this.expect(">");
+        return { kind: "result", ok, err };
+      }
+      case "borrow":
+      case "own": {
+        this.expect("<");
+        const resource = this.id();
+        this.expect(">");
+        return { kind: "handle", resource };
+      }
+      default:
+        return { kind: "named", name };
+    }
+  }
+
+  private resolve(type: ParsedType): WitType {
+    switch (type.kind) {
+      case "named": {
+        const definition = this.types.get(type.name);
+        if (definition === undefined) {
+          throw new Error(`Unknown type: ${type.name}`);
+        }
+        return this.resolve(definition);
+      }
+      case "list":
+        return { kind: "list", element: this.resolve(type.element) };
+      case "option":
+        return { kind: "option", inner: this.resolve(type.inner) };
+      case "result":
+        return {
+          kind: "result",
+          ok: type.ok !== undefined ? this.resolve(type.ok) : undefined,
+          err: type.err !== undefined ? this.resolve(type.err) : undefined,
+        };
+      case "tuple":
+        return { kind: "tuple", items: type.items.map((item) => this.resolve(item)) };
+      case "record":
+        return { ...type, fields: type.fields.map((field) => ({ name: field.name, type: this.resolve(field.type) })) };
+      case "variant":
+        return {
+          ...type,
+          cases: type.cases.map((c) => ({
+            name: c.name,
+            type: c.type !== undefined ? this.resolve(c.type) : undefined,
+          })),
+        };
+      default:
+        return type;
+    }
+  }
+
+  private list<T>(open: string, close: string, item: () => T): T[] {
+    this.expect(open);
+    const items: T[] = [];
+    while (this.peek() !== close) {
+      items.push(item());
+      if (this.peek() !== close) {
+        this.expect(",");
+      }
+    }
+    this.next();
+    return items;
+  }
+
+  private id(): string {
+    const token = this.next();
+    if (!/^%?[a-z0-9_-]+$/i.test(token)) {
+      throw new Error(`Expected identifier, got: ${token}`);
+    }
+    return unescapeId(token);
+  }
+
+  private expect(expected: string) {
+    const token = this.next();
+    if (token !== expected) {
+      throw new Error(`Expected ${expected}, got: ${token}`);
+    }
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private next(): string {
+    const token = this.tokens[this.pos++];
+    if (token === undefined) {
+      throw new Error("Unexpected end of interface");
+    }
+    return token;
+  }
+}
+
+function unescapeId(id: string): string {
+  return id.startsWith("%") ? id.substring(1) : id;
+}
+
+function stripComments(source: string): string {
+  return source.replaceAll(/\/\*[\s\S]*?\*\//g, "").replaceAll(/\/\/.*$/gm, "");
+}
+
+function findClosingBrace(source: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === "{") depth++;
+    if (source[i] === "}") depth--;
+    if (depth == 0) return i;
+  }
+  throw new Error("Unclosed block");
+}
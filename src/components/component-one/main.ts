@@ -1,30 +1,74 @@
 import { ComponentOneApi } from "./generated/component-one";
 import { ComponentTwoApi } from "golem:component-two-stub/stub-component-two";
 import { ComponentThreeApi } from "golem:component-three-stub/stub-component-three";
-import * as cfg from "../../lib/cfg";
+import * as cfg from "./generated/cfg";
 import { getSelfMetadata } from "golem:api/host@0.2.0";
+import * as durability from "../../lib/durability";
+import { logger } from "../../lib/log";
+import * as rpc from "../../lib/rpc";
+import * as trace from "../../lib/trace";
+
+const log = logger("component-one");
 
 let state = BigInt(0);
+const appliedAdds = new durability.AppliedOperations();
+
+// Failed remote calls of the fan-out are retried a few more times than by default, with a backoff of 0.5 to 5 seconds
+const fanOutRetryPolicy = {
+  maxAttempts: 5,
+  minDelay: BigInt(500_000_000),
+  maxDelay: BigInt(5_000_000_000),
+  multiplier: 2,
+};
+
+// Calls of the fan-out which do not finish in time are failed, and retried with the retry policy
+const fanOutTimeoutMs = 30_000;
 
 export const componentOneApi: ComponentOneApi = {
-  add(value: bigint) {
-    console.log(`Adding ${value} to the counter`);
+  add(value: bigint, idempotencyKey?: string, traceParent?: string) {
+    cfg.checkEnv();
+    return trace.inSpan("component-one.add", traceParent, () => {
+      log.info("Adding to the counter", { value });
+
+      const applied = appliedAdds.applyOnce(idempotencyKey, () => {
+        const workerName = getSelfMetadata().workerId.workerName;
 
-    const workerName = getSelfMetadata().workerId.workerName;
+        // The two calls of the fan-out run in parallel in an atomic region, so if the worker fails before both calls
+        // finished, both are made again on recovery, also the one which had already finished. They pass the
+        // idempotency key of this add, which is created before the region and persisted in the oplog, so the same key
+        // is passed again, and component two and three apply the repeated add only once.
+        const key = durability.idempotencyKey();
+        durability.withRetryPolicy(fanOutRetryPolicy, () =>
+          durability.atomically(() => {
+            const componentTwoWorkerURN = cfg.getComponentTwoWorkerURN(workerName);
+            log.debug("Calling component two", { urn: componentTwoWorkerURN.value });
+            const componentTwo = new ComponentTwoApi(componentTwoWorkerURN);
 
-    const componentTwoWorkerURN = cfg.getComponentTwoWorkerURN(workerName);
-    console.log(`Calling component two: ${componentTwoWorkerURN}`);
-    const componentTwo = new ComponentTwoApi(componentTwoWorkerURN);
-    componentTwo.blockingAdd(value);
+            const componentThreeWorkerURN = cfg.getComponentThreeWorkerURN(workerName);
+            log.debug("Calling component three", { urn: componentThreeWorkerURN.value });
+            const componentThree = new ComponentThreeApi(componentThreeWorkerURN);
 
-    const componentThreeWorkerURN = cfg.getComponentThreeWorkerURN(workerName);
-    console.log(`Calling component three: ${componentThreeWorkerURN}`);
-    const componentThree = new ComponentThreeApi(componentThreeWorkerURN);
-    componentThree.blockingAdd(value);
+            rpc.awaitAllOrThrow([
+              rpc.call("component-two.add", (traceParent) => componentTwo.add(value, key, traceParent), {
+                timeoutMs: fanOutTimeoutMs,
+              }),
+              rpc.call("component-three.add", (traceParent) => componentThree.add(value, key, traceParent), {
+                timeoutMs: fanOutTimeoutMs,
+              }),
+            ]);
+          }),
+        );
 
-    state += value;
+        state += value;
+      });
+      if (!applied) {
+        log.info("The add was already applied", { idempotencyKey });
+      }
+      return state;
+    });
   },
-  get() {
-    return state;
+  get(traceParent?: string) {
+    cfg.checkEnv();
+    return trace.inSpan("component-one.get", traceParent, () => state);
   },
 };
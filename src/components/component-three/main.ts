@@ -1,13 +1,27 @@
 import { ComponentThreeApi } from "./generated/component-three";
+import * as durability from "../../lib/durability";
+import { logger } from "../../lib/log";
+import * as trace from "../../lib/trace";
+
+const log = logger("component-three");
 
 let state = BigInt(0);
+const appliedAdds = new durability.AppliedOperations();
 
 export const componentThreeApi: ComponentThreeApi = {
-  add(value: bigint) {
-    console.log(`Adding ${value} to the counter`);
-    state += value;
+  add(value: bigint, idempotencyKey?: string, traceParent?: string) {
+    return trace.inSpan("component-three.add", traceParent, () => {
+      log.info("Adding to the counter", { value });
+      const applied = appliedAdds.applyOnce(idempotencyKey, () => {
+        state += value;
+      });
+      if (!applied) {
+        log.info("The add was already applied", { idempotencyKey });
+      }
+      return state;
+    });
   },
-  get() {
-    return state;
+  get(traceParent?: string) {
+    return trace.inSpan("component-three.get", traceParent, () => state);
   },
 };
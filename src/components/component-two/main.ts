@@ -1,24 +1,42 @@
 import { ComponentTwoApi } from "./generated/component-two";
 import { ComponentThreeApi } from "golem:component-three-stub/stub-component-three";
-import * as cfg from "../../lib/cfg";
+import * as cfg from "./generated/cfg";
 import { getSelfMetadata } from "golem:api/host@0.2.0";
+import * as durability from "../../lib/durability";
+import { logger } from "../../lib/log";
+import * as rpc from "../../lib/rpc";
+import * as trace from "../../lib/trace";
+
+const log = logger("component-two");
 
 let state = BigInt(0);
+const appliedAdds = new durability.AppliedOperations();
 
 export const componentTwoApi: ComponentTwoApi = {
-  add(value: bigint) {
-    console.log(`Adding ${value} to the counter`);
+  add(value: bigint, idempotencyKey?: string, traceParent?: string) {
+    cfg.checkEnv();
+    return trace.inSpan("component-two.add", traceParent, () => {
+      log.info("Adding to the counter", { value });
 
-    const workerName = getSelfMetadata().workerId.workerName;
+      const applied = appliedAdds.applyOnce(idempotencyKey, () => {
+        const workerName = getSelfMetadata().workerId.workerName;
 
-    const componentThreeWorkerURN = cfg.getComponentThreeWorkerURN(workerName);
-    console.log(`Calling component three: ${componentThreeWorkerURN}`);
-    const componentThree = new ComponentThreeApi(componentThreeWorkerURN);
-    componentThree.blockingAdd(value);
+        const componentThreeWorkerURN = cfg.getComponentThreeWorkerURN(workerName);
+        log.debug("Calling component three", { urn: componentThreeWorkerURN.value });
+        const componentThree = new ComponentThreeApi(componentThreeWorkerURN);
+        const key = durability.idempotencyKey();
+        rpc.blocking("component-three.add", (traceParent) => componentThree.blockingAdd(value, key, traceParent));
 
-    state += value;
+        state += value;
+      });
+      if (!applied) {
+        log.info("The add was already applied", { idempotencyKey });
+      }
+      return state;
+    });
   },
-  get() {
-    return state;
+  get(traceParent?: string) {
+    cfg.checkEnv();
+    return trace.inSpan("component-two.get", traceParent, () => state);
   },
 };
@@ -1,14 +1,12 @@
 import { getEnvironment } from "wasi:cli/environment@0.2.0";
 
-let env: Map<string, string> | undefined = undefined;
+// Component specific helpers (environment variable keys and worker URN getters) are generated
+// by the build into the components' generated/cfg.ts, based on their dependencies.
 
-export const envVarKeys = {
-  COMPONENT_ONE_ID: "COMPONENT_ONE_ID",
-  COMPONENT_TWO_ID: "COMPONENT_TWO_ID",
-  COMPONENT_THREE_ID: "COMPONENT_THREE_ID",
-};
+let env: Map<string, string> | undefined = undefined;
 
-function getEnv(key: string): string | undefined {
+// The environment is read on first use, so it must not be called during module initialization
+export function getEnv(key: string): string | undefined {
   if (env === undefined) {
     env = new Map();
     for (const [key, value] of getEnvironment()) {
@@ -19,7 +17,7 @@ function getEnv(key: string): string | undefined {
   return env.get(key);
 }
 
-function mustGetEnv(key: string): string {
+export function mustGetEnv(key: string): string {
   const value = getEnv(key);
   if (value == undefined) {
     throw new Error(`Expected environment variable is missing: ${key}`);
@@ -27,28 +25,19 @@ function mustGetEnv(key: string): string {
   return value;
 }
 
-export interface Uri {
-  value: string;
-}
-
-function getComponentWorkerURN(componentID: string, workerName: string): string {
-  return `urn:worker:${componentID}/${workerName}`;
-}
-
-export function getComponentOneWorkerURN(workerName: string): Uri {
-  return {
-    value: getComponentWorkerURN(mustGetEnv(envVarKeys.COMPONENT_ONE_ID), workerName),
-  };
+export function requireEnv(keys: string[]) {
+  const missingKeys = keys.filter((key) => getEnv(key) === undefined);
+  if (missingKeys.length > 0) {
+    throw new Error(`Expected environment variables are missing: ${missingKeys.join(", ")}`);
+  }
 }
 
-export function getComponentTwoWorkerURN(workerName: string): Uri {
-  return {
-    value: getComponentWorkerURN(mustGetEnv(envVarKeys.COMPONENT_TWO_ID), workerName),
-  };
+export interface Uri {
+  value: string;
 }
 
-export function getComponentThreeWorkerURN(workerName: string): Uri {
+export function getComponentWorkerURN(componentIdEnvVarKey: string, workerName: string): Uri {
   return {
-    value: getComponentWorkerURN(mustGetEnv(envVarKeys.COMPONENT_THREE_ID), workerName),
+    value: `urn:worker:${mustGetEnv(componentIdEnvVarKey)}/${workerName}`,
   };
 }
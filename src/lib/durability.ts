@@ -0,0 +1,126 @@
+import {
+  generateIdempotencyKey,
+  getIdempotenceMode,
+  getOplogPersistenceLevel,
+  getRetryPolicy,
+  markBeginOperation,
+  markEndOperation,
+  PersistenceLevel,
+  RetryPolicy,
+  setIdempotenceMode,
+  setOplogPersistenceLevel,
+  setRetryPolicy,
+} from "golem:api/host@0.2.0";
+
+// Helpers for changing the durability settings of the worker for the duration of a callback. Every helper sets the
+// setting, runs the callback, and restores the previous setting, also when the callback throws:
+//
+//   durability.withRetryPolicy({ maxAttempts: 10 }, () =>
+//     rpc.blocking("component-two.add", (traceParent) => componentTwo.blockingAdd(value, key, traceParent)),
+//   );
+//
+// The settings are part of the worker state, which is kept by Golem, so nested helpers restore the setting of the
+// enclosing one.
+//
+// Remote calls which may be repeated (e.g. when an atomic region is executed again, or by a retrying caller) can be
+// made idempotent with an idempotency key, which the called worker uses to apply the call only once:
+//
+//   const key = durability.idempotencyKey();
+//   ...
+//   appliedOperations.applyOnce(key, () => { state += value; });
+
+export type { PersistenceLevel, RetryPolicy };
+
+export type PersistenceLevelName = PersistenceLevel["tag"];
+
+// Runs the callback with the retry policy, properties not given are kept from the current policy. Delays are
+// durations in nanoseconds.
+export function withRetryPolicy<T>(policy: Partial<RetryPolicy>, fn: () => T): T {
+  const previous = getRetryPolicy();
+  setRetryPolicy({ ...previous, ...policy });
+  try {
+    return fn();
+  } finally {
+    setRetryPolicy(previous);
+  }
+}
+
+// Runs the callback with the oplog persistence level, e.g. persist-nothing for side effects which do not have to be
+// replayed on recovery
+export function withPersistenceLevel<T>(level: PersistenceLevelName, fn: () => T): T {
+  const previous = getOplogPersistenceLevel();
+  setOplogPersistenceLevel({ tag: level });
+  try {
+    return fn();
+  } finally {
+    setOplogPersistenceLevel(previous);
+  }
+}
+
+// Runs the callback with the idempotence mode, when it is false, remote side effects which might have been performed
+// before a failure are not retried, as they are not safe to repeat
+export function withIdempotence<T>(idempotent: boolean, fn: () => T): T {
+  const previous = getIdempotenceMode();
+  setIdempotenceMode(idempotent);
+  try {
+    return fn();
+  } finally {
+    setIdempotenceMode(previous);
+  }
+}
+
+// Runs the callback as an atomic region: if the worker fails before the region ends, it is executed again as a whole
+// on recovery, instead of replaying its finished steps and continuing from the failure. Remote calls finished before
+// the failure are made again, so they have to be idempotent, e.g. by passing an idempotency key created before the
+// region.
+export function atomically<T>(fn: () => T): T {
+  const begin = markBeginOperation();
+  try {
+    return fn();
+  } finally {
+    markEndOperation(begin);
+  }
+}
+
+// Returns a new idempotency key, which is persisted in the oplog like the results of other host functions, so the
+// same key is returned when the worker is recovered
+export function idempotencyKey(): string {
+  const { highBits, lowBits } = generateIdempotencyKey();
+  const hex = highBits.toString(16).padStart(16, "0") + lowBits.toString(16).padStart(16, "0");
+  return [
+    hex.substring(0, 8),
+    hex.substring(8, 12),
+    hex.substring(12, 16),
+    hex.substring(16, 20),
+    hex.substring(20),
+  ].join("-");
+}
+
+// Keys of the last applied operations of the worker, for applying operations repeated with the same idempotency key
+// only once. The keys are kept in memory, which is part of the worker state, up to the capacity, which has to be
+// larger than the number of operations that can be repeated at a time.
+export class AppliedOperations {
+  private readonly capacity: number;
+  // In the order of applying them
+  private readonly keys = new Set<string>();
+
+  constructor(capacity = 1000) {
+    this.capacity = capacity;
+  }
+
+  // Applies the operation unless an operation with the same key was already applied, operations without key are
+  // always applied. Returns whether the operation was applied.
+  applyOnce(key: string | undefined, fn: () => void): boolean {
+    if (key !== undefined && this.keys.has(key)) {
+      return false;
+    }
+    fn();
+    if (key !== undefined) {
+      this.keys.add(key);
+      if (this.keys.size > this.capacity) {
+        this.keys.delete(this.keys.values().next().value as string);
+      }
+    }
+    return true;
+  }
+}
@@ -0,0 +1,135 @@
+import { Level, log } from "wasi:logging/logging";
+import { getSelfMetadata } from "golem:api/host@0.2.0";
+import * as cfg from "./cfg";
+
+// Structured logger on top of wasi:logging. Entries are logged with the context of the logger, and the message is
+// followed by the key/value fields, starting with the name of the current worker:
+//
+//   const log = logger("component-one");
+//   log.info("Adding to the counter", { value });
+//   // Adding to the counter worker=worker-1 value=2
+//
+//   const callLog = log.with({ target: "component-two" });
+//   callLog.debug("Calling", { urn });
+//
+// Entries below the level set by the LOG_LEVEL environment variable (default: info) are skipped. The level and the
+// worker name are read on first use, as module initialization happens at build time, without the worker environment.
+
+export type LogLevel = Level;
+
+export type LogFields = { [key: string]: unknown };
+
+export const logLevelEnvVarKey = "LOG_LEVEL";
+
+const logLevels: LogLevel[] = ["trace", "debug", "info", "warn", "error", "critical"];
+
+const defaultLogLevel: LogLevel = "info";
+
+let minLevel: LogLevel | undefined = undefined;
+let workerName: string | undefined = undefined;
+let scopedFields: LogFields = {};
+
+function enabledLevel(): LogLevel {
+  if (minLevel === undefined) {
+    const value = cfg.getEnv(logLevelEnvVarKey)?.toLowerCase();
+    minLevel = logLevels.find((level) => level === value) ?? defaultLogLevel;
+    if (value !== undefined && value !== minLevel) {
+      log("warn", "log", `Invalid ${logLevelEnvVarKey}: ${value}, expected one of: ${logLevels.join(", ")}`);
+    }
+  }
+  return minLevel;
+}
+
+function currentWorkerName(): string {
+  if (workerName === undefined) {
+    workerName = getSelfMetadata().workerId.workerName;
+  }
+  return workerName;
+}
+
+// Adds the fields to all the entries logged while running fn, e.g. the trace and span IDs of the invocation
+export function withLogFields<T>(fields: LogFields, fn: () => T): T {
+  const outerFields = scopedFields;
+  scopedFields = { ...outerFields, ...fields };
+  try {
+    return fn();
+  } finally {
+    scopedFields = outerFields;
+  }
+}
+
+export class Logger {
+  readonly context: string;
+  private readonly fields: LogFields;
+
+  constructor(context: string, fields: LogFields = {}) {
+    this.context = context;
+    this.fields = fields;
+  }
+
+  // Returns a logger with the same context, which adds the fields to all of its entries
+  with(fields: LogFields): Logger {
+    return new Logger(this.context, { ...this.fields, ...fields });
+  }
+
+  enabled(level: LogLevel): boolean {
+    return logLevels.indexOf(level) >= logLevels.indexOf(enabledLevel());
+  }
+
+  trace(message: string, fields?: LogFields) {
+    this.log("trace", message, fields);
+  }
+
+  debug(message: string, fields?: LogFields) {
+    this.log("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.log("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.log("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.log("error", message, fields);
+  }
+
+  critical(message: string, fields?: LogFields) {
+    this.log("critical", message, fields);
+  }
+
+  log(level: LogLevel, message: string, fields: LogFields = {}) {
+    if (!this.enabled(level)) return;
+    log(
+      level,
+      this.context,
+      formatEntry(message, { worker: currentWorkerName(), ...scopedFields, ...this.fields, ...fields }),
+    );
+  }
+}
+
+export function logger(context: string, fields?: LogFields): Logger {
+  return new Logger(context, fields);
+}
+
+export function formatEntry(message: string, fields: LogFields): string {
+  const formattedFields = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${formatValue(value)}`);
+  return [message, ...formattedFields].join(" ");
+}
+
+// Values are written as is when possible, otherwise quoted as JSON strings
+function formatValue(value: unknown): string {
+  let text: string;
+  if (value instanceof Error) {
+    text = value.message;
+  } else if (typeof value === "object" && value !== null) {
+    text = JSON.stringify(value, (_, item) => (typeof item === "bigint" ? item.toString() : item));
+  } else {
+    text = String(value);
+  }
+  return text === "" || /[\s"=]/.test(text) ? JSON.stringify(text) : text;
+}
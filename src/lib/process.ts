@@ -1,22 +1,19 @@
-import child_process from "node:child_process";
+import child_process, { ChildProcess } from "node:child_process";
+import { AsyncLocalStorage } from "node:async_hooks";
 
-export function run(command: string, args: string[]): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const child = child_process.spawn(command, args);
-
-    child.stdout.on("data", (data) => process.stdout.write(data));
-    child.stderr.on("data", (data) => process.stderr.write(data));
-
-    child.on("close", (code) => {
-      if (code === 0) {
-        resolve();
-      } else {
-        reject(new Error(`Command [${command} ${args.join(" ")}] failed with exit code ${code}`));
-      }
-    });
-
-    child.on("error", (error) => reject(error));
-  });
+export interface RunOptions {
+  // Environment of the child process, defaults to the environment of the current process
+  env?: NodeJS.ProcessEnv;
+  // Working directory of the child process, defaults to the working directory of the current process
+  cwd?: string;
+  // Written to the stdin of the child process, otherwise stdin is not connected
+  input?: string | Uint8Array;
+  // Timeout in milliseconds, after which the process tree is killed
+  timeout?: number;
+  // Kills the process tree when aborted, defaults to the signal of the current process context
+  signal?: AbortSignal;
+  // Prefix of the streamed output lines, defaults to the name of the current process context
+  prefix?: string;
 }
 
 export interface RunResult {
@@ -26,25 +23,247 @@ export interface RunResult {
   cmd: string;
 }
 
-export function runCapture(command: string, args: string[]): Promise<RunResult> {
+// Context of the processes started by a task, e.g. by the tasks of TaskGraph, so parallel tasks are prefixing their
+// output with the task name, and their processes are killed when the task is cancelled
+export interface ProcessContext {
+  name?: string;
+  signal?: AbortSignal;
+}
+
+const processContext = new AsyncLocalStorage<ProcessContext>();
+
+export function withProcessContext<T>(context: ProcessContext, fn: () => Promise<T>): Promise<T> {
+  return processContext.run(context, fn);
+}
+
+export type ProcessFailure = "exit" | "timeout" | "aborted";
+
+// Thrown when the process exits with a non-zero code, times out or gets aborted, with the captured output
+export class ProcessError extends Error {
+  readonly cmd: string;
+  readonly failure: ProcessFailure;
+  readonly code: number | null;
+  readonly stdout: string;
+  readonly stderr: string;
+
+  constructor(message: string, result: RunResult, failure: ProcessFailure) {
+    super(message);
+    this.name = "ProcessError";
+    this.cmd = result.cmd;
+    this.failure = failure;
+    this.code = result.code;
+    this.stdout = result.stdout;
+    this.stderr = result.stderr;
+  }
+}
+
+// Runs the command while streaming its output, and throws ProcessError if it fails
+export async function run(command: string, args: string[], options: RunOptions = {}): Promise<void> {
+  const { result, failure } = await spawn(command, args, options, true);
+  if (failure !== undefined) {
+    throw new ProcessError(failureMessage(result, failure, options), result, failure);
+  }
+}
+
+// Runs the command and captures its output, non-zero exit codes are returned, so they can be handled by the caller,
+// while timeouts and cancellations are thrown as ProcessError
+export async function runCapture(command: string, args: string[], options: RunOptions = {}): Promise<RunResult> {
+  const { result, failure } = await spawn(command, args, options, false);
+  if (failure !== undefined && failure !== "exit") {
+    throw new ProcessError(failureMessage(result, failure, options), result, failure);
+  }
+  return result;
+}
+
+// Runs the command and returns its stdout, on failure the captured output is part of the thrown ProcessError
+export async function runOutput(command: string, args: string[], options: RunOptions = {}): Promise<string> {
+  const { result, failure } = await spawn(command, args, options, false);
+  if (failure !== undefined) {
+    const output = `${result.stdout}${result.stderr}`.trimEnd();
+    throw new ProcessError(
+      `${failureMessage(result, failure, options)}${output !== "" ? `:\n${output}` : ""}`,
+      result,
+      failure,
+    );
+  }
+  return result.stdout;
+}
+
+function failureMessage(result: RunResult, failure: ProcessFailure, options: RunOptions): string {
+  switch (failure) {
+    case "exit":
+      return `Command [${result.cmd}] failed with exit code ${result.code}`;
+    case "timeout":
+      return `Command [${result.cmd}] timed out after ${options.timeout} ms`;
+    case "aborted":
+      return `Command [${result.cmd}] was cancelled`;
+  }
+}
+
+// Grace period between terminating and killing the process tree
+const killTimeout = 5000;
+
+// Running child processes, their trees are killed when the current process is interrupted or exits
+const children = new Set<ChildProcess>();
+
+function spawn(
+  command: string,
+  args: string[],
+  options: RunOptions,
+  stream: boolean,
+): Promise<{ result: RunResult; failure: ProcessFailure | undefined }> {
+  const context = processContext.getStore() ?? {};
+  const signal = options.signal ?? context.signal;
+  const prefix = options.prefix ?? context.name;
+  const cmd = `${command} ${args.join(" ")}`;
+
   return new Promise((resolve, reject) => {
-    const child = child_process.spawn(command, args);
+    if (signal?.aborted) {
+      resolve({ result: { code: null, stdout: "", stderr: "", cmd }, failure: "aborted" });
+      return;
+    }
+
+    // On POSIX systems the child is started in its own process group, so the whole tree can be killed
+    const child = child_process.spawn(command, args, {
+      env: options.env,
+      cwd: options.cwd,
+      stdio: [options.input !== undefined ? "pipe" : "ignore", "pipe", "pipe"],
+      detached: process.platform !== "win32",
+    });
+    trackChild(child);
+
+    let stdout = "";
+    let stderr = "";
+    let failure: ProcessFailure | undefined;
+
+    const stdoutWriter = stream ? new OutputWriter(process.stdout, prefix) : undefined;
+    const stderrWriter = stream ? new OutputWriter(process.stderr, prefix) : undefined;
+    child.stdout!.on("data", (data) => {
+      stdout += data;
+      stdoutWriter?.write(data.toString());
+    });
+    child.stderr!.on("data", (data) => {
+      stderr += data;
+      stderrWriter?.write(data.toString());
+    });
 
-    let stderr: string = "";
-    let stdout: string = "";
+    if (options.input !== undefined) {
+      // The child might exit without reading its input
+      child.stdin!.on("error", () => {});
+      child.stdin!.end(options.input);
+    }
 
-    child.stdout.on("data", (data) => (stdout += data));
-    child.stderr.on("data", (data) => (stderr += data));
+    const cancel = (reason: ProcessFailure) => {
+      if (failure !== undefined) return;
+      failure = reason;
+      killTree(child);
+    };
+    const timeout = options.timeout !== undefined ? setTimeout(() => cancel("timeout"), options.timeout) : undefined;
+    const onAbort = () => cancel("aborted");
+    signal?.addEventListener("abort", onAbort);
+
+    const cleanup = () => {
+      children.delete(child);
+      if (timeout !== undefined) clearTimeout(timeout);
+      signal?.removeEventListener("abort", onAbort);
+      stdoutWriter?.flush();
+      stderrWriter?.flush();
+    };
 
     child.on("close", (code) => {
-      resolve({
-        code: code,
-        stdout: stdout,
-        stderr: stderr,
-        cmd: `${command} ${args.join(" ")}`,
-      });
+      cleanup();
+      if (failure === undefined && code !== 0) {
+        failure = "exit";
+      }
+      resolve({ result: { code, stdout, stderr, cmd }, failure });
     });
 
-    child.on("error", (error) => reject(error));
+    child.on("error", (error) => {
+      cleanup();
+      reject(error);
+    });
   });
 }
+
+function trackChild(child: ChildProcess) {
+  if (!exitHandlersInstalled) {
+    installExitHandlers();
+  }
+  children.add(child);
+}
+
+let exitHandlersInstalled = false;
+
+// Children are in their own process groups, so they do not receive the interrupt of the terminal, instead their trees
+// are killed by the current process. Without other SIGINT listeners (e.g. watch), the current process exits as well.
+function installExitHandlers() {
+  exitHandlersInstalled = true;
+  const killAll = () => {
+    for (const child of children) {
+      killTree(child, "SIGKILL");
+    }
+  };
+  const onSignal = (signal: NodeJS.Signals) => {
+    killAll();
+    if (process.listenerCount(signal) === 1) {
+      process.exit(signal === "SIGINT" ? 130 : 143);
+    }
+  };
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
+  process.on("exit", killAll);
+}
+
+// Terminates the process tree, and kills it after the grace period, if some of the processes are still running
+function killTree(child: ChildProcess, signal: NodeJS.Signals = "SIGTERM") {
+  const pid = child.pid;
+  if (pid === undefined) return;
+
+  if (process.platform === "win32") {
+    child_process.spawnSync("taskkill", ["/pid", `${pid}`, "/T", "/F"]);
+    return;
+  }
+
+  if (killProcessGroup(pid, signal) && signal !== "SIGKILL") {
+    setTimeout(() => killProcessGroup(pid, "SIGKILL"), killTimeout).unref();
+  }
+}
+
+function killProcessGroup(pid: number, signal: NodeJS.Signals): boolean {
+  try {
+    process.kill(-pid, signal);
+    return true;
+  } catch {
+    // The process group already exited
+    return false;
+  }
+}
+
+// Writes the output line by line with the prefix, so the lines of parallel processes are not mixed
+class OutputWriter {
+  private buffer = "";
+
+  constructor(
+    private readonly out: NodeJS.WriteStream,
+    private readonly prefix: string | undefined,
+  ) {}
+
+  write(data: string) {
+    if (this.prefix === undefined) {
+      this.out.write(data);
+      return;
+    }
+    const lines = (this.buffer + data).split("\n");
+    this.buffer = lines.pop()!;
+    for (const line of lines) {
+      this.out.write(`[${this.prefix}] ${line}\n`);
+    }
+  }
+
+  flush() {
+    if (this.prefix !== undefined && this.buffer !== "") {
+      this.out.write(`[${this.prefix}] ${this.buffer}\n`);
+      this.buffer = "";
+    }
+  }
+}
@@ -0,0 +1,201 @@
+import { poll, Pollable } from "wasi:io/poll@0.2.0";
+import { subscribeDuration } from "wasi:clocks/monotonic-clock@0.2.0";
+import { Span, startSpan } from "./trace";
+
+// Helpers for awaiting multiple non-blocking worker to worker RPC calls together.
+//
+// The generated stubs provide non-blocking variants of the remote functions returning futures
+// (e.g. `get(): FutureGetResult`), which can be subscribed to with wasi:io/poll. Calls started with `call`
+// are already running in parallel on the remote workers, `awaitAll` polls them together until all are
+// finished or timed out:
+//
+//   const [two, three] = rpc.awaitAllOrThrow([
+//     rpc.call("component-two.get", (traceParent) => componentTwo.get(traceParent), { timeoutMs: 5000 }),
+//     rpc.call("component-three.get", (traceParent) => componentThree.get(traceParent), { timeoutMs: 5000 }),
+//   ]);
+//
+// Every call runs in a span of the current trace (see trace.ts), the trace parent passed to the remote function
+// makes the span of the remote invocation a child of the call. Blocking calls can be traced the same way with
+// `blocking`:
+//
+//   rpc.blocking("component-two.add", (traceParent) => componentTwo.blockingAdd(value, traceParent));
+
+// get is only called once the pollable is ready, its result is the value of the call even when it is undefined
+// (e.g. for functions without result)
+export interface RemoteFuture<T> {
+  subscribe(): Pollable;
+  get(): T | undefined;
+}
+
+export interface CallOptions {
+  // The call is failed with RpcTimeoutError if no result arrives in time
+  timeoutMs?: number;
+}
+
+export type CallResult<T> = { ok: true; value: T } | { ok: false; error: Error };
+
+export class RpcError extends Error {
+  readonly callName: string;
+
+  constructor(callName: string, message: string, cause?: unknown) {
+    super(`RPC call ${callName} failed: ${message}`, { cause });
+    this.name = "RpcError";
+    this.callName = callName;
+  }
+}
+
+export class RpcTimeoutError extends RpcError {
+  constructor(callName: string, timeoutMs: number) {
+    super(callName, `timed out after ${timeoutMs} ms`);
+    this.name = "RpcTimeoutError";
+  }
+}
+
+export interface PendingCall<T> {
+  readonly name: string;
+  readonly options: CallOptions;
+  // Undefined if starting the call failed
+  readonly future: RemoteFuture<T> | undefined;
+  readonly startError: Error | undefined;
+  // Ended when the result of the call arrives
+  readonly span: Span;
+}
+
+type CallResults<T extends readonly PendingCall<unknown>[]> = {
+  -readonly [K in keyof T]: T[K] extends PendingCall<infer V> ? CallResult<V> : never;
+};
+
+type CallValues<T extends readonly PendingCall<unknown>[]> = {
+  -readonly [K in keyof T]: T[K] extends PendingCall<infer V> ? V : never;
+};
+
+// Runs a blocking remote call in a span, errors thrown by the call are rethrown as RpcError
+export function blocking<T>(name: string, fn: (traceParent: string) => T): T {
+  const span = startSpan(`call ${name}`);
+  try {
+    const result = fn(span.traceParent());
+    span.end();
+    return result;
+  } catch (error) {
+    const rpcError = new RpcError(name, errorMessage(error), error);
+    span.end(rpcError);
+    throw rpcError;
+  }
+}
+
+// Starts a non-blocking remote call, errors thrown while starting are reported as the result of the call
+export function call<T>(
+  name: string,
+  start: (traceParent: string) => RemoteFuture<T>,
+  options: CallOptions = {},
+): PendingCall<T> {
+  const span = startSpan(`call ${name}`);
+  try {
+    return { name, options, future: start(span.traceParent()), startError: undefined, span };
+  } catch (error) {
+    const startError = new RpcError(name, errorMessage(error), error);
+    span.end(startError);
+    return { name, options, future: undefined, startError, span };
+  }
+}
+
+// Waits for all the calls to finish or time out, and returns their results in the same order as the calls
+export function awaitAll<const T extends readonly PendingCall<unknown>[]>(calls: T): CallResults<T> {
+  const results: (CallResult<unknown> | undefined)[] = calls.map((call) =>
+    call.startError !== undefined ? { ok: false, error: call.startError } : undefined,
+  );
+
+  const futurePollables = new Map<number, Pollable>();
+  const timeoutPollables = new Map<number, Pollable>();
+
+  // Ends the span of the call, and drops its pollables and future, the pollables first, as they are children of
+  // the future. Dropping the future of a timed out call abandons its result.
+  const finish = (idx: number, result: CallResult<unknown>) => {
+    const call = calls[idx] as PendingCall<unknown>;
+    results[idx] = result;
+    call.span.end(result.ok ? undefined : result.error);
+    for (const pollables of [futurePollables, timeoutPollables]) {
+      const pollable = pollables.get(idx);
+      if (pollable !== undefined) {
+        drop(pollable);
+        pollables.delete(idx);
+      }
+    }
+    if (call.future !== undefined) {
+      drop(call.future);
+    }
+  };
+
+  try {
+    calls.forEach((call, idx) => {
+      if (call.future === undefined) return;
+      try {
+        futurePollables.set(idx, call.future.subscribe());
+      } catch (error) {
+        finish(idx, { ok: false, error: new RpcError(call.name, errorMessage(error), error) });
+        return;
+      }
+      if (call.options.timeoutMs !== undefined) {
+        timeoutPollables.set(idx, subscribeDuration(BigInt(call.options.timeoutMs) * BigInt(1_000_000)));
+      }
+    });
+
+    while (futurePollables.size > 0) {
+      const pending: [number, Pollable, "future" | "timeout"][] = [
+        ...Array.from(futurePollables.entries()).map(([idx, p]): [number, Pollable, "future"] => [idx, p, "future"]),
+        ...Array.from(timeoutPollables.entries()).map(([idx, p]): [number, Pollable, "timeout"] => [idx, p, "timeout"]),
+      ];
+
+      for (const readyIdx of poll(pending.map(([, pollable]) => pollable))) {
+        const [idx, , kind] = pending[readyIdx] as [number, Pollable, "future" | "timeout"];
+        const call = calls[idx] as PendingCall<unknown>;
+        if (results[idx] !== undefined) continue;
+
+        if (kind === "timeout") {
+          finish(idx, { ok: false, error: new RpcTimeoutError(call.name, call.options.timeoutMs as number) });
+        } else {
+          finish(idx, futureResult(call));
+        }
+      }
+    }
+  } finally {
+    // Only left when polling failed
+    calls.forEach((call, idx) => {
+      if (results[idx] === undefined) {
+        finish(idx, { ok: false, error: new RpcError(call.name, "not awaited") });
+      }
+    });
+  }
+
+  return results as CallResults<T>;
+}
+
+// Same as awaitAll, but returns only the values, and throws the first error if any of the calls failed
+export function awaitAllOrThrow<const T extends readonly PendingCall<unknown>[]>(calls: T): CallValues<T> {
+  const results = awaitAll(calls) as CallResult<unknown>[];
+  for (const result of results) {
+    if (!result.ok) {
+      throw result.error;
+    }
+  }
+  return results.map((result) => (result as { value: unknown }).value) as CallValues<T>;
+}
+
+// Returns the result of a call whose future is ready, errors thrown by get are reported the same way as by blocking
+function futureResult(call: PendingCall<unknown>): CallResult<unknown> {
+  try {
+    return { ok: true, value: (call.future as RemoteFuture<unknown>).get() };
+  } catch (error) {
+    return { ok: false, error: new RpcError(call.name, errorMessage(error), error) };
+  }
+}
+
+// The generated bindings implement Symbol.dispose for resources, the futures and pollables of the test harness do
+// not have to be dropped
+function drop(resource: object) {
+  (resource as { [Symbol.dispose]?: () => void })[Symbol.dispose]?.();
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
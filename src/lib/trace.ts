@@ -0,0 +1,117 @@
+import { getRandomBytes } from "wasi:random/random@0.2.0";
+import { logger, withLogFields } from "./log";
+
+// Tracing of invocations across components. Every invocation runs in a span, and outgoing RPC calls (see rpc.ts)
+// pass the trace ID and their own span ID to the called worker as a W3C traceparent string
+// (00-<trace ID>-<span ID>-01), so the spans of the called workers are children of the calls:
+//
+//   add(value: bigint, traceParent?: string) {
+//     trace.inSpan("component-one.add", traceParent, () => {
+//       rpc.blocking("component-two.add", (traceParent) => componentTwo.blockingAdd(value, traceParent));
+//     });
+//   }
+//
+// Entries logged during a span have the trace and span fields, and finished spans are logged at info level with
+// the trace-span message, which is used by the traces command of build.ts for rebuilding the call trees.
+
+export const traceSpanMessage = "trace-span";
+
+export type SpanStatus = "ok" | "error";
+
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+}
+
+const log = logger("trace");
+
+const spanStack: Span[] = [];
+
+export class Span implements SpanContext {
+  readonly name: string;
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId: string | undefined;
+  // Unix time in milliseconds
+  readonly start: number;
+  private ended = false;
+
+  constructor(name: string, parent: SpanContext | undefined) {
+    this.name = name;
+    this.traceId = parent?.traceId ?? randomHex(16);
+    this.spanId = randomHex(8);
+    this.parentSpanId = parent?.spanId;
+    this.start = Date.now();
+  }
+
+  traceParent(): string {
+    return formatTraceParent(this);
+  }
+
+  // Logs the finished span, ending it again is a no-op
+  end(error?: unknown) {
+    if (this.ended) return;
+    this.ended = true;
+    const status: SpanStatus = error === undefined ? "ok" : "error";
+    log.info(traceSpanMessage, {
+      trace: this.traceId,
+      span: this.spanId,
+      parent: this.parentSpanId,
+      name: this.name,
+      start: this.start,
+      durationMs: Date.now() - this.start,
+      status,
+      error,
+    });
+  }
+}
+
+export function currentSpan(): Span | undefined {
+  return spanStack[spanStack.length - 1];
+}
+
+// Starts a span, by default as a child of the current one, the caller has to end it
+export function startSpan(name: string, parent: SpanContext | undefined = currentSpan()): Span {
+  return new Span(name, parent);
+}
+
+// Runs the function in a new current span, which is a child of the span given as traceParent, or the root of a new
+// trace when the invocation has no trace parent (e.g. it was invoked directly, not through RPC)
+export function inSpan<T>(name: string, traceParent: string | undefined, fn: (span: Span) => T): T {
+  let parent: SpanContext | undefined = undefined;
+  if (traceParent !== undefined) {
+    parent = parseTraceParent(traceParent);
+    if (parent === undefined) {
+      log.warn("Invalid trace parent, starting a new trace", { traceParent });
+    }
+  }
+
+  const span = new Span(name, parent);
+  spanStack.push(span);
+  try {
+    const result = withLogFields({ trace: span.traceId, span: span.spanId }, () => fn(span));
+    span.end();
+    return result;
+  } catch (error) {
+    span.end(error);
+    throw error;
+  } finally {
+    spanStack.pop();
+  }
+}
+
+export function formatTraceParent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-01`;
+}
+
+export function parseTraceParent(traceParent: string): SpanContext | undefined {
+  const match = /^[0-9a-f]{2}-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/.exec(traceParent.trim().toLowerCase());
+  if (match === null || /^0+$/.test(match[1]!) || /^0+$/.test(match[2]!)) {
+    return undefined;
+  }
+  return { traceId: match[1]!, spanId: match[2]! };
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(getRandomBytes(BigInt(bytes)), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,173 @@
+import path from "node:path";
+import { ComponentMetadata, InvokeResponse, localGolemUrlEnvVar, WorkerMetadata } from "./protocol";
+
+// golem-cli compatible command line of the local Golem stand-in, supporting the commands used by the project:
+//
+//   component add --component-name <name> <wasm>
+//   component update --component-name <name> <wasm>
+//   component get --component-name <name>
+//   worker add --component-name <name> --worker-name <name> [--env KEY=VALUE]...
+//   worker delete --component-name <name> --worker-name <name>
+//   worker invoke-and-await --component-name <name> --worker-name <name> --function <name> [--arg <wave>]...
+//
+// The --format (text or json) and --profile options are accepted anywhere, the profile is ignored.
+
+const booleanOptions = ["--non-interactive", "-y", "--verbose", "-v"];
+
+const shortOptions: { [short: string]: string } = {
+  "-C": "--component-name",
+  "-w": "--worker-name",
+  "-e": "--env",
+  "-f": "--function",
+  "-a": "--arg",
+};
+
+interface ParsedArgs {
+  positionals: string[];
+  options: { [name: string]: string[] };
+}
+
+function parseArgs(args: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positionals: [], options: {} };
+  for (let idx = 0; idx < args.length; idx++) {
+    const arg = args[idx] as string;
+    if (!arg.startsWith("-")) {
+      parsed.positionals.push(arg);
+      continue;
+    }
+    if (booleanOptions.includes(arg)) {
+      continue;
+    }
+
+    const eqIdx = arg.indexOf("=");
+    let name = eqIdx > 0 && arg.startsWith("--") ? arg.substring(0, eqIdx) : arg;
+    name = shortOptions[name] ?? name;
+    const value = eqIdx > 0 && arg.startsWith("--") ? arg.substring(eqIdx + 1) : args[++idx];
+    if (value === undefined) {
+      throw new Error(`Missing value for option ${arg}`);
+    }
+    (parsed.options[name] ??= []).push(value);
+  }
+  return parsed;
+}
+
+function option(args: ParsedArgs, name: string): string {
+  const value = args.options[name]?.[0];
+  if (value === undefined) {
+    throw new Error(`Missing required option: ${name}`);
+  }
+  return value;
+}
+
+async function request<T>(operation: string, body: unknown): Promise<T> {
+  const url = process.env[localGolemUrlEnvVar];
+  if (url === undefined) {
+    throw new Error(
+      `${localGolemUrlEnvVar} is not defined, the local Golem is started by build.ts for deploy and test`,
+    );
+  }
+
+  const response = await fetch(`${url}/${operation}`, { method: "POST", body: JSON.stringify(body) });
+  const result = (await response.json()) as { result?: T; error?: string };
+  if (!response.ok) {
+    throw new Error(result.error ?? `Request failed with status ${response.status}`);
+  }
+  return result.result as T;
+}
+
+function printComponent(json: boolean, message: string, component: ComponentMetadata) {
+  if (json) {
+    console.log(JSON.stringify(component, null, 2));
+    return;
+  }
+  console.log(message);
+  console.log(`Component URN: ${component.componentUrn}`);
+  console.log(`Component name: ${component.componentName}`);
+  console.log(`Component version: ${component.componentVersion}`);
+  console.log(`Component size: ${component.componentSize} bytes`);
+  console.log("Exports:");
+  component.exports.forEach((exported) => console.log(`  ${exported}`));
+}
+
+async function main(args: ParsedArgs) {
+  const json = args.options["--format"]?.[0] === "json";
+  const [group, command, ...rest] = args.positionals;
+
+  switch (`${group} ${command}`) {
+    case "component add":
+    case "component update": {
+      const wasm = rest[0];
+      if (wasm === undefined) {
+        throw new Error("Missing component WASM file argument");
+      }
+      const componentName = option(args, "--component-name");
+      const component = await request<ComponentMetadata>(`component-${command}`, {
+        componentName,
+        wasm: path.resolve(wasm),
+      });
+      printComponent(json, `${command === "add" ? "Added new" : "Updated"} component ${componentName}`, component);
+      return;
+    }
+    case "component get": {
+      const component = await request<ComponentMetadata>("component-get", {
+        componentName: option(args, "--component-name"),
+      });
+      printComponent(json, `Component ${component.componentName}`, component);
+      return;
+    }
+    case "worker add": {
+      const env: { [key: string]: string } = {};
+      for (const entry of args.options["--env"] ?? []) {
+        const eqIdx = entry.indexOf("=");
+        if (eqIdx <= 0) {
+          throw new Error(`Invalid environment variable, expected KEY=VALUE: ${entry}`);
+        }
+        env[entry.substring(0, eqIdx)] = entry.substring(eqIdx + 1);
+      }
+      const worker = await request<WorkerMetadata>("worker-add", {
+        componentName: option(args, "--component-name"),
+        workerName: option(args, "--worker-name"),
+        env,
+      });
+      if (json) {
+        console.log(JSON.stringify(worker, null, 2));
+      } else {
+        console.log(`Added worker ${worker.workerName}`);
+        console.log(`Worker URN: ${worker.workerUrn}`);
+      }
+      return;
+    }
+    case "worker delete": {
+      const workerName = option(args, "--worker-name");
+      await request<void>("worker-delete", { componentName: option(args, "--component-name"), workerName });
+      console.log(`Deleted worker ${workerName}`);
+      return;
+    }
+    case "worker invoke-and-await": {
+      const result = await request<InvokeResponse>("worker-invoke-and-await", {
+        componentName: option(args, "--component-name"),
+        workerName: option(args, "--worker-name"),
+        function: option(args, "--function"),
+        args: args.options["--arg"] ?? [],
+      });
+      if (json) {
+        console.log(JSON.stringify({ value: result.json }, null, 2));
+      } else if (result.wave.length == 0) {
+        console.log("Empty result.");
+      } else {
+        console.log("Invocation results in WAVE format:");
+        result.wave.forEach((value) => console.log(`- ${value}`));
+      }
+      return;
+    }
+    default:
+      throw new Error(`Command not supported by the local Golem: ${args.positionals.join(" ")}`);
+  }
+}
+
+try {
+  await main(parseArgs(process.argv.slice(2)));
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,35 @@
+import type { JsonValue } from "./values";
+
+// Types shared by the local Golem server and its golem-cli compatible command line, which only loads this module,
+// so starting the command line stays fast
+
+export const localGolemUrlEnvVar = "LOCAL_GOLEM_URL";
+
+export interface ComponentMetadata {
+  componentUrn: string;
+  componentName: string;
+  componentVersion: number;
+  componentSize: number;
+  exports: string[];
+}
+
+export interface WorkerMetadata {
+  workerUrn: string;
+  componentName: string;
+  workerName: string;
+  componentVersion: number;
+  env: { [key: string]: string };
+}
+
+// Entries logged by a worker using wasi:logging, including the ones of the deleted workers
+export interface WorkerLogs {
+  componentName: string;
+  workerName: string;
+  logs: { level: string; context: string; message: string }[];
+}
+
+export interface InvokeResponse {
+  // Results in the JSON and WAVE formats of golem-cli
+  json: JsonValue[];
+  wave: string[];
+}
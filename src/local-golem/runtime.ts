@@ -0,0 +1,518 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createHash, randomUUID } from "node:crypto";
+import { pathToFileURL } from "node:url";
+import { transpile } from "@golemcloud/jco";
+import * as wasiShim from "@bytecodealliance/preview2-shim";
+import { dashToPascal } from "../build-tools/component-cfg";
+import { Project, projectComponentName } from "../build-tools/project";
+import { componentMainWit } from "../build-tools/rpc-dependencies";
+import {
+  parseWitInterfacesFile,
+  parseWitWorldFile,
+  stubImport,
+  WitFunction,
+  WitInterface,
+  WitType,
+} from "../build-tools/wit";
+import {
+  defaultRetryPolicy,
+  HostWorker,
+  hostInterfaces,
+  invoke,
+  LogEntry,
+  PersistenceLevel,
+  RetryPolicy,
+} from "../testing/host";
+import { ComponentMetadata, WorkerLogs, WorkerMetadata } from "./protocol";
+import { camelCase, fromWitValue, parseWave, toWitValue, typeName, WitValue } from "./values";
+
+// Local stand-in for the parts of Golem used by the project: components are transpiled with jco and run in
+// the current process with the WASI implementation of preview2-shim, workers are kept in memory. Worker to
+// worker RPC calls are routed between the local workers, both for uncomposed components (importing the stub
+// interfaces directly) and for components composed with the stubs (using golem:rpc/types).
+//
+// The host functions of golem:api/host and wasi:logging are shared with the test harness (see src/testing/host.ts).
+
+export interface InvocationResult {
+  function: WitFunction;
+  // undefined if the function has no result
+  value: unknown;
+}
+
+// WebAssembly is not part of the ES library typings, only the used parts are declared
+type CoreModule = object;
+declare const WebAssembly: { compile(bytes: Uint8Array): Promise<CoreModule> };
+
+type ComponentExports = { [name: string]: { [functionName: string]: (...args: unknown[]) => unknown } };
+type Instantiate = (getCoreModule: (name: string) => CoreModule, imports: object) => ComponentExports;
+
+interface ComponentVersion {
+  version: number;
+  size: number;
+  instantiate: Instantiate;
+  coreModules: Map<string, CoreModule>;
+}
+
+interface LocalComponent {
+  id: string;
+  name: string;
+  // Name of the component in the project, the deployed name may have an environment specific prefix or suffix
+  projectComponentName: string;
+  // Exported interfaces by their full name, e.g. golem:component-one/component-one-api
+  interfaces: Map<string, WitInterface>;
+  versions: ComponentVersion[];
+}
+
+type RpcError = { tag: "protocol-error" | "denied" | "not-found" | "remote-internal-error"; val: string };
+
+export class LocalGolem {
+  private readonly project: Project;
+  private readonly transpiledDir: string;
+  private readonly components = new Map<string, LocalComponent>();
+  private readonly workers = new Map<string, LocalWorker>();
+  // Logs of the deleted workers are kept, so they are available after the cleanup of the tests, e.g. for the traces
+  private readonly deletedWorkerLogs: WorkerLogs[] = [];
+
+  constructor(project: Project, workDir: string) {
+    this.project = project;
+    this.transpiledDir = path.join(workDir, "transpiled");
+  }
+
+  async addComponent(componentName: string, wasmPath: string): Promise<ComponentMetadata> {
+    if (this.components.has(componentName)) {
+      throw new Error(`Component already exists: ${componentName}`);
+    }
+    const projectComponent = projectComponentName(this.project, componentName);
+    if (projectComponent === undefined) {
+      throw new Error(`Unknown component: ${componentName}, only the components of the project can be added`);
+    }
+
+    const component: LocalComponent = {
+      id: randomUUID(),
+      name: componentName,
+      projectComponentName: projectComponent,
+      interfaces: componentInterfaces(this.project, projectComponent),
+      versions: [],
+    };
+    component.versions.push(await this.loadComponentVersion(wasmPath, 0));
+    this.components.set(componentName, component);
+    return componentMetadata(component);
+  }
+
+  // Adds a new version of the component, used by the workers created after the update
+  async updateComponent(componentName: string, wasmPath: string): Promise<ComponentMetadata> {
+    const component = this.component(componentName);
+    component.versions.push(await this.loadComponentVersion(wasmPath, component.versions.length));
+    return componentMetadata(component);
+  }
+
+  getComponent(componentName: string): ComponentMetadata {
+    return componentMetadata(this.component(componentName));
+  }
+
+  addWorker(componentName: string, workerName: string, env: { [key: string]: string }): WorkerMetadata {
+    const component = this.component(componentName);
+    const urn = workerURN(component.id, workerName);
+    if (this.workers.has(urn)) {
+      throw new Error(`Worker already exists: ${componentName}/${workerName}`);
+    }
+    return workerMetadata(this.createWorker(component, workerName, env));
+  }
+
+  deleteWorker(componentName: string, workerName: string) {
+    const component = this.component(componentName);
+    const urn = workerURN(component.id, workerName);
+    const worker = this.workers.get(urn);
+    if (worker === undefined) {
+      throw new Error(`Worker not found: ${componentName}/${workerName}`);
+    }
+    this.workers.delete(urn);
+    this.deletedWorkerLogs.push(workerLogs(worker));
+  }
+
+  // Returns the logs of the existing and deleted workers
+  getWorkerLogs(): WorkerLogs[] {
+    return [...this.deletedWorkerLogs, ...Array.from(this.workers.values()).map(workerLogs)];
+  }
+
+  // Invokes a function of the worker, with arguments in WAVE format; the worker is created if it does not exist
+  invokeAndAwait(componentName: string, workerName: string, functionName: string, args: string[]): InvocationResult {
+    const worker = this.worker(this.component(componentName), workerName);
+    const [interfaceName, fn] = worker.findFunction(functionName);
+    if (args.length !== fn.params.length) {
+      throw new Error(`${functionName} expects ${fn.params.length} arguments, got ${args.length}`);
+    }
+    const values = fn.params.map((param, idx) => parseWave(args[idx] as string, param.type));
+    return { function: fn, value: worker.call(interfaceName, fn, values) };
+  }
+
+  resolveWorker(workerURN: string): LocalWorker {
+    const match = /^urn:worker:([^/]+)\/(.+)$/.exec(workerURN);
+    const component = Array.from(this.components.values()).find((component) => component.id === match?.[1]);
+    if (match === null || component === undefined) {
+      throw new Error(`Unknown worker: ${workerURN}`);
+    }
+    return this.worker(component, match[2] as string);
+  }
+
+  private component(componentName: string): LocalComponent {
+    const component = this.components.get(componentName);
+    if (component === undefined) {
+      throw new Error(`Component not found: ${componentName}`);
+    }
+    return component;
+  }
+
+  // Workers are created on first invocation, the same way as in Golem
+  private worker(component: LocalComponent, workerName: string): LocalWorker {
+    return this.workers.get(workerURN(component.id, workerName)) ?? this.createWorker(component, workerName, {});
+  }
+
+  private createWorker(component: LocalComponent, workerName: string, env: { [key: string]: string }): LocalWorker {
+    const version = component.versions[component.versions.length - 1] as ComponentVersion;
+    const worker = new LocalWorker(this, component, version.version, workerName, {
+      ...env,
+      GOLEM_WORKER_NAME: workerName,
+      GOLEM_COMPONENT_ID: component.id,
+      GOLEM_COMPONENT_VERSION: `${version.version}`,
+    });
+    worker.instantiate(version, this.workerImports(worker));
+    this.workers.set(worker.urn, worker);
+    return worker;
+  }
+
+  // Transpiled components are cached by the hash of the WASM, as transpiling takes a few seconds
+  private async loadComponentVersion(wasmPath: string, version: number): Promise<ComponentVersion> {
+    const wasm = fs.readFileSync(wasmPath);
+    const dir = path.join(this.transpiledDir, createHash("sha256").update(wasm).digest("hex"));
+    const componentJs = path.join(dir, "component.js");
+
+    if (!fs.existsSync(componentJs)) {
+      // The typings of jco mark some optional transpile options as required
+      const options = { name: "component", instantiation: "sync" } as Parameters<typeof transpile>[1];
+      const { files } = await transpile(wasm, options);
+      const tmpDir = `${dir}.tmp`;
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+      for (const [fileName, content] of Object.entries(files)) {
+        fs.mkdirSync(path.dirname(path.join(tmpDir, fileName)), { recursive: true });
+        fs.writeFileSync(path.join(tmpDir, fileName), content);
+      }
+      fs.renameSync(tmpDir, dir);
+    }
+
+    const coreModules = new Map<string, CoreModule>();
+    for (const fileName of fs.readdirSync(dir).filter((fileName) => fileName.endsWith(".wasm"))) {
+      coreModules.set(fileName, await WebAssembly.compile(fs.readFileSync(path.join(dir, fileName))));
+    }
+    const { instantiate } = (await import(pathToFileURL(componentJs).href)) as { instantiate: Instantiate };
+
+    return { version, size: wasm.length, instantiate, coreModules };
+  }
+
+  private workerImports(worker: LocalWorker): { [interfaceName: string]: unknown } {
+    const imports: { [interfaceName: string]: unknown } = {};
+
+    for (const [packageName, wasiPackage] of Object.entries(wasiShim)) {
+      for (const [name, wasiInterface] of Object.entries(wasiPackage)) {
+        if (typeof wasiInterface === "object" && wasiInterface !== null) {
+          imports[`wasi:${packageName}/${camelToDash(name)}`] = wasiInterface;
+        }
+      }
+    }
+    imports["wasi:cli/environment"] = {
+      ...wasiShim.cli.environment,
+      getEnvironment: () => worker.env.map(([key, value]) => [key, value]),
+    };
+    imports["golem:api/host"] = hostInterfaces["golem:api/host@0.2.0"];
+    imports["wasi:logging/logging"] = hostInterfaces["wasi:logging/logging"];
+    imports["golem:rpc/types"] = this.wasmRpcInterface();
+
+    for (const componentName of Object.keys(this.project.components)) {
+      imports[stubImport(this.project.namespace, componentName)] = this.stubInterface(componentName);
+    }
+
+    return imports;
+  }
+
+  // Stub interface of a component for uncomposed components, with a resource per exported interface, and a future
+  // resource per function with result, e.g. ComponentTwoApi and FutureGetResult for component-two
+  private stubInterface(componentName: string): { [name: string]: unknown } {
+    const stubInterface: { [name: string]: unknown } = {};
+    for (const [interfaceName, witInterface] of componentInterfaces(this.project, componentName)) {
+      const resolveWorker = (location: { value: string }) => {
+        const target = this.resolveWorker(location.value);
+        if (target.projectComponentName !== componentName) {
+          throw new Error(`Stub of ${componentName} was created for a worker of ${target.componentName}`);
+        }
+        return target;
+      };
+
+      const stub = class {
+        readonly target: LocalWorker;
+
+        constructor(location: { value: string }) {
+          this.target = resolveWorker(location);
+        }
+      };
+
+      for (const fn of witInterface.functions) {
+        const blockingName = camelCase(`blocking-${fn.name}`);
+        const future = fn.result !== undefined ? futureResource(fn.result) : undefined;
+        if (future !== undefined) {
+          stubInterface[dashToPascal(`future-${fn.name}-result`)] = future;
+        }
+
+        Object.defineProperty(stub.prototype, blockingName, {
+          value: function (this: InstanceType<typeof stub>, ...args: unknown[]) {
+            return this.target.call(interfaceName, fn, args);
+          },
+        });
+        Object.defineProperty(stub.prototype, camelCase(fn.name), {
+          value: function (this: InstanceType<typeof stub>, ...args: unknown[]) {
+            const result = this.target.call(interfaceName, fn, args);
+            return future !== undefined ? new future(result) : undefined;
+          },
+        });
+      }
+
+      stubInterface[dashToPascal(witInterface.name)] = stub;
+    }
+    return stubInterface;
+  }
+
+  // golem:rpc/types for components composed with the stubs, function parameters and results are WitValues
+  private wasmRpcInterface(): { [name: string]: unknown } {
+    const resolveWorker = (location: { value: string }) => this.resolveWorker(location.value);
+
+    class FutureInvokeResult {
+      private readonly result: { tag: "ok"; val: WitValue } | { tag: "err"; val: RpcError };
+
+      constructor(result: { tag: "ok"; val: WitValue } | { tag: "err"; val: RpcError }) {
+        this.result = result;
+      }
+
+      subscribe() {
+        return readyPollable();
+      }
+
+      get() {
+        return this.result;
+      }
+    }
+
+    class WasmRpc {
+      private readonly target: LocalWorker;
+
+      constructor(location: { value: string }) {
+        this.target = resolveWorker(location);
+      }
+
+      invokeAndAwait(functionName: string, params: WitValue[]): WitValue {
+        const result = this.target.callWithWitValues(functionName, params);
+        if (result.tag === "err") {
+          throw Object.assign(new Error(result.val.val), { payload: result.val });
+        }
+        return result.val;
+      }
+
+      invoke(functionName: string, params: WitValue[]): void {
+        this.invokeAndAwait(functionName, params);
+      }
+
+      asyncInvokeAndAwait(functionName: string, params: WitValue[]): FutureInvokeResult {
+        return new FutureInvokeResult(this.target.callWithWitValues(functionName, params));
+      }
+    }
+
+    return { WasmRpc, FutureInvokeResult };
+  }
+}
+
+class LocalWorker implements HostWorker {
+  readonly componentName: string;
+  readonly projectComponentName: string;
+  readonly componentId: string;
+  readonly componentVersion: number;
+  readonly workerName: string;
+  readonly urn: string;
+  readonly env: [string, string][];
+  readonly logs: LogEntry[] = [];
+  retryPolicy: RetryPolicy = { ...defaultRetryPolicy };
+  persistenceLevel: PersistenceLevel = { tag: "smart" };
+  idempotenceMode = true;
+  oplogIndex = BigInt(0);
+
+  private readonly golem: LocalGolem;
+  private readonly interfaces: Map<string, WitInterface>;
+  private exports: ComponentExports = {};
+
+  constructor(
+    golem: LocalGolem,
+    component: LocalComponent,
+    componentVersion: number,
+    workerName: string,
+    env: { [key: string]: string },
+  ) {
+    this.golem = golem;
+    this.componentName = component.name;
+    this.projectComponentName = component.projectComponentName;
+    this.componentId = component.id;
+    this.componentVersion = componentVersion;
+    this.workerName = workerName;
+    this.urn = workerURN(component.id, workerName);
+    this.env = Object.entries(env);
+    this.interfaces = component.interfaces;
+  }
+
+  instantiate(version: ComponentVersion, imports: object) {
+    this.exports = version.instantiate((name) => {
+      const coreModule = version.coreModules.get(name);
+      if (coreModule === undefined) {
+        throw new Error(`Missing core module of ${this.componentName}: ${name}`);
+      }
+      return coreModule;
+    }, imports);
+  }
+
+  exportedFunction(interfaceName: string, functionName: string): ((...args: unknown[]) => unknown) | undefined {
+    return this.exports[interfaceName]?.[functionName];
+  }
+
+  resolveWorker(workerURN: string): HostWorker {
+    return this.golem.resolveWorker(workerURN);
+  }
+
+  // Finds an exported function by name in the form of <interface>.{<function>}
+  findFunction(functionName: string): [string, WitFunction] {
+    const match = /^(.+)\.\{([a-z0-9-]+)\}$/.exec(functionName);
+    const fn = this.interfaces.get(match?.[1] ?? "")?.functions.find((fn) => fn.name === match?.[2]);
+    if (match === null || fn === undefined) {
+      const available = Array.from(this.interfaces.entries()).flatMap(([interfaceName, witInterface]) =>
+        witInterface.functions.map((fn) => `${interfaceName}.{${fn.name}}`),
+      );
+      throw new Error(
+        `Function not found in ${this.componentName}: ${functionName}, available functions: ${available.join(", ")}`,
+      );
+    }
+    return [match[1] as string, fn];
+  }
+
+  // Calls an exported function, errors of functions returning result are returned as err values, the same way
+  // as they are represented in the WAVE and JSON outputs
+  call(interfaceName: string, fn: WitFunction, args: unknown[]): unknown {
+    try {
+      const value = invoke(this, interfaceName, camelCase(fn.name), args);
+      return fn.result?.kind === "result" ? { tag: "ok", val: value } : value;
+    } catch (error) {
+      if (fn.result?.kind === "result" && typeof error === "object" && error !== null && "payload" in error) {
+        return { tag: "err", val: error.payload };
+      }
+      throw error;
+    }
+  }
+
+  callWithWitValues(
+    functionName: string,
+    params: WitValue[],
+  ): { tag: "ok"; val: WitValue } | { tag: "err"; val: RpcError } {
+    let interfaceName: string;
+    let fn: WitFunction;
+    let args: unknown[];
+    try {
+      [interfaceName, fn] = this.findFunction(functionName);
+      if (params.length !== fn.params.length) {
+        throw new Error(`${functionName} expects ${fn.params.length} parameters, got ${params.length}`);
+      }
+      args = fn.params.map((param, idx) => fromWitValue(params[idx] as WitValue, param.type));
+    } catch (error) {
+      return { tag: "err", val: { tag: "protocol-error", val: errorMessage(error) } };
+    }
+
+    try {
+      const value = this.call(interfaceName, fn, args);
+      const resultType: WitType = { kind: "tuple", items: fn.result !== undefined ? [fn.result] : [] };
+      return { tag: "ok", val: toWitValue(fn.result !== undefined ? [value] : [], resultType) };
+    } catch (error) {
+      return { tag: "err", val: { tag: "remote-internal-error", val: errorMessage(error) } };
+    }
+  }
+}
+
+// Remote calls are executed synchronously, so futures are always ready
+function futureResource(resultType: WitType) {
+  return class {
+    private readonly result: unknown;
+
+    constructor(result: unknown) {
+      this.result = result;
+    }
+
+    subscribe() {
+      return readyPollable();
+    }
+
+    // The result is an option, which is only none while the result is not ready
+    get() {
+      return resultType.kind === "option" ? { tag: "some", val: this.result } : this.result;
+    }
+  };
+}
+
+function readyPollable() {
+  return wasiShim.clocks.monotonicClock.subscribeDuration(BigInt(0));
+}
+
+// Exported interfaces of the component based on its WIT world, by their full name
+function componentInterfaces(project: Project, componentName: string): Map<string, WitInterface> {
+  const mainWit = componentMainWit(project, componentName);
+  const world = parseWitWorldFile(mainWit);
+  const interfaces = parseWitInterfacesFile(mainWit);
+  return new Map(
+    interfaces
+      .filter((witInterface) => world.exports.includes(witInterface.name))
+      .map((witInterface) => [`${world.packageName}/${witInterface.name}`, witInterface]),
+  );
+}
+
+function componentMetadata(component: LocalComponent): ComponentMetadata {
+  const latest = component.versions[component.versions.length - 1] as ComponentVersion;
+  return {
+    componentUrn: `urn:component:${component.id}`,
+    componentName: component.name,
+    componentVersion: latest.version,
+    componentSize: latest.size,
+    exports: Array.from(component.interfaces.entries()).flatMap(([interfaceName, witInterface]) =>
+      witInterface.functions.map((fn) => {
+        const params = fn.params.map((param) => `${param.name}: ${typeName(param.type)}`).join(", ");
+        return `${interfaceName}.{${fn.name}}(${params})${fn.result !== undefined ? ` -> ${typeName(fn.result)}` : ""}`;
+      }),
+    ),
+  };
+}
+
+function workerMetadata(worker: LocalWorker): WorkerMetadata {
+  return {
+    workerUrn: worker.urn,
+    componentName: worker.componentName,
+    workerName: worker.workerName,
+    componentVersion: worker.componentVersion,
+    env: Object.fromEntries(worker.env),
+  };
+}
+
+function workerLogs(worker: LocalWorker): WorkerLogs {
+  return { componentName: worker.componentName, workerName: worker.workerName, logs: [...worker.logs] };
+}
+
+function workerURN(componentId: string, workerName: string): string {
+  return `urn:worker:${componentId}/${workerName}`;
+}
+
+function camelToDash(name: string): string {
+  return name.replaceAll(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
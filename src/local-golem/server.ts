@@ -0,0 +1,123 @@
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+import { AddressInfo } from "node:net";
+import { fileURLToPath } from "node:url";
+import { Project } from "../build-tools/project";
+import { InvokeResponse, localGolemUrlEnvVar, WorkerLogs } from "./protocol";
+import { LocalGolem } from "./runtime";
+import { formatWave, toJson } from "./values";
+
+// HTTP server exposing the local Golem stand-in to the golem-cli compatible command line (see cli.ts). The server
+// runs in the build.ts process, and the command line is made available as golem-cli for the commands started by
+// the build (deploy and test) by prepending its directory to PATH.
+
+export interface LocalGolemServer {
+  url: string;
+  // Path of the golem-cli compatible command
+  golemCli: string;
+  // Environment for processes using the local Golem as golem-cli
+  env: NodeJS.ProcessEnv;
+  // Logs of the workers created since the server was started, including the deleted ones
+  workerLogs(): WorkerLogs[];
+}
+
+type Operations = { [operation: string]: (request: { [key: string]: unknown }) => Promise<unknown> | unknown };
+
+let server: Promise<LocalGolemServer> | undefined;
+
+// Starts the server on first use, it is stopped when the build process exits
+export function startLocalGolem(project: Project): Promise<LocalGolemServer> {
+  server ??= start(project);
+  return server;
+}
+
+async function start(project: Project): Promise<LocalGolemServer> {
+  const workDir = path.join(project.outDir, "local-golem");
+  const golem = new LocalGolem(project, workDir);
+
+  const operations: Operations = {
+    "component-add": (request) => golem.addComponent(string(request, "componentName"), string(request, "wasm")),
+    "component-update": (request) => golem.updateComponent(string(request, "componentName"), string(request, "wasm")),
+    "component-get": (request) => golem.getComponent(string(request, "componentName")),
+    "worker-add": (request) =>
+      golem.addWorker(
+        string(request, "componentName"),
+        string(request, "workerName"),
+        (request["env"] ?? {}) as { [key: string]: string },
+      ),
+    "worker-delete": (request) => golem.deleteWorker(string(request, "componentName"), string(request, "workerName")),
+    "worker-invoke-and-await": (request): InvokeResponse => {
+      const result = golem.invokeAndAwait(
+        string(request, "componentName"),
+        string(request, "workerName"),
+        string(request, "function"),
+        (request["args"] ?? []) as string[],
+      );
+      const resultType = result.function.result;
+      return {
+        json: resultType !== undefined ? [toJson(result.value, resultType)] : [],
+        wave: resultType !== undefined ? [formatWave(result.value, resultType)] : [],
+      };
+    },
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (data) => (body += data));
+    req.on("end", async () => {
+      const operation = operations[(req.url ?? "").substring(1)];
+      try {
+        if (req.method !== "POST" || operation === undefined) {
+          throw new Error(`Unknown operation: ${req.method} ${req.url}`);
+        }
+        respond(res, 200, { result: await operation(JSON.parse(body)) });
+      } catch (error) {
+        respond(res, 400, { error: error instanceof Error ? error.message : String(error) });
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(0, "127.0.0.1", resolve);
+  });
+  httpServer.unref();
+
+  const url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  const golemCli = writeGolemCliCommand(path.join(workDir, "bin"));
+  console.log(`Local Golem started at ${url}`);
+
+  return {
+    url,
+    golemCli,
+    env: {
+      ...process.env,
+      PATH: `${path.dirname(golemCli)}${path.delimiter}${process.env["PATH"] ?? ""}`,
+      [localGolemUrlEnvVar]: url,
+    },
+    workerLogs: () => golem.getWorkerLogs(),
+  };
+}
+
+function writeGolemCliCommand(binDir: string): string {
+  const tsx = path.resolve("node_modules", ".bin", "tsx");
+  const cli = fileURLToPath(new URL("./cli.ts", import.meta.url));
+  const golemCli = path.join(binDir, "golem-cli");
+  fs.mkdirSync(binDir, { recursive: true });
+  fs.writeFileSync(golemCli, `#!/bin/sh\nexec "${tsx}" "${cli}" "$@"\n`, { mode: 0o755 });
+  return golemCli;
+}
+
+function respond(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function string(request: { [key: string]: unknown }, key: string): string {
+  const value = request[key];
+  if (typeof value !== "string") {
+    throw new Error(`Missing or invalid request parameter: ${key}`);
+  }
+  return value;
+}
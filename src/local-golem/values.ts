@@ -0,0 +1,625 @@
+import { WitType } from "../build-tools/wit";
+
+// Conversions of component values between their JS representation (as used by jco bindings), the WAVE text
+// format (used by golem-cli for function arguments and results), the JSON format of golem-cli, and the WitValue
+// representation of golem:rpc (used by the composed RPC stubs). All conversions are driven by the WIT types.
+//
+// JS representation: u64 and s64 as bigint, other numbers as number, list<u8> as Uint8Array, records as objects
+// with camel case field names, variants as { tag, val }, enums as strings, flags as objects with boolean fields,
+// options as the value or undefined, results as { tag: "ok" | "err", val }, tuples as arrays.
+
+export type JsonValue = null | boolean | number | string | JsonValue[] | { [key: string]: JsonValue };
+
+export type WitNode =
+  | { tag: "record-value"; val: Int32Array }
+  | { tag: "variant-value"; val: [number, number | undefined] }
+  | { tag: "enum-value"; val: number }
+  | { tag: "flags-value"; val: boolean[] }
+  | { tag: "tuple-value"; val: Int32Array }
+  | { tag: "list-value"; val: Int32Array }
+  | { tag: "option-value"; val: number | undefined }
+  | { tag: "result-value"; val: { tag: "ok" | "err"; val: number | undefined } }
+  | { tag: "prim-u8" | "prim-u16" | "prim-u32" | "prim-s8" | "prim-s16" | "prim-s32"; val: number }
+  | { tag: "prim-u64" | "prim-s64"; val: bigint }
+  | { tag: "prim-float32" | "prim-float64"; val: number }
+  | { tag: "prim-char" | "prim-string"; val: string }
+  | { tag: "prim-bool"; val: boolean };
+
+export interface WitValue {
+  nodes: WitNode[];
+}
+
+type Tagged = { tag: string; val: unknown };
+
+const intRanges: { [kind: string]: [bigint, bigint] } = {
+  u8: [BigInt(0), BigInt(255)],
+  u16: [BigInt(0), BigInt(65535)],
+  u32: [BigInt(0), BigInt(4294967295)],
+  u64: [BigInt(0), BigInt("18446744073709551615")],
+  s8: [BigInt(-128), BigInt(127)],
+  s16: [BigInt(-32768), BigInt(32767)],
+  s32: [BigInt(-2147483648), BigInt(2147483647)],
+  s64: [BigInt("-9223372036854775808"), BigInt("9223372036854775807")],
+};
+
+export function camelCase(name: string): string {
+  return name.replaceAll(/-([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+// Nested options cannot be represented with undefined, so inner options use { tag: "some" | "none" }
+function isNestedOption(type: WitType): boolean {
+  return type.kind === "option" && type.inner.kind === "option";
+}
+
+export function typeName(type: WitType): string {
+  switch (type.kind) {
+    case "list":
+      return `list<${typeName(type.element)}>`;
+    case "option":
+      return `option<${typeName(type.inner)}>`;
+    case "result":
+      return type.ok === undefined && type.err === undefined
+        ? "result"
+        : `result<${type.ok !== undefined ? typeName(type.ok) : "_"}${type.err !== undefined ? `, ${typeName(type.err)}` : ""}>`;
+    case "tuple":
+      return `tuple<${type.items.map(typeName).join(", ")}>`;
+    case "record":
+    case "variant":
+    case "enum":
+    case "flags":
+      return type.name;
+    case "handle":
+      return `handle<${type.resource}>`;
+    default:
+      return type.kind;
+  }
+}
+
+// WAVE
+
+export function parseWave(text: string, type: WitType): unknown {
+  const parser = new WaveParser(text);
+  const value = parser.value(type);
+  parser.end();
+  return value;
+}
+
+class WaveParser {
+  private readonly text: string;
+  private pos = 0;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+
+  value(type: WitType): unknown {
+    this.skipWhitespace();
+    switch (type.kind) {
+      case "bool": {
+        const id = this.id();
+        if (id !== "true" && id !== "false") this.fail(`expected bool, got ${id}`);
+        return id === "true";
+      }
+      case "u8":
+      case "u16":
+      case "u32":
+      case "u64":
+      case "s8":
+      case "s16":
+      case "s32":
+      case "s64": {
+        const token = this.match(/-?[0-9]+/, "integer");
+        const value = BigInt(token);
+        const [min, max] = intRanges[type.kind] as [bigint, bigint];
+        if (value < min || value > max) this.fail(`${token} is out of range for ${type.kind}`);
+        return type.kind === "u64" || type.kind === "s64" ? value : Number(value);
+      }
+      case "f32":
+      case "f64": {
+        const token = this.match(/-?inf|nan|-?[0-9]+(\.[0-9]+)?([eE][-+]?[0-9]+)?/, "number");
+        return token === "nan" ? NaN : token === "inf" ? Infinity : token === "-inf" ? -Infinity : Number(token);
+      }
+      case "char": {
+        this.expect("'");
+        const char = this.char("'");
+        this.expect("'");
+        return char;
+      }
+      case "string": {
+        this.expect('"');
+        let str = "";
+        while (this.peek() !== '"') {
+          str += this.char('"');
+        }
+        this.expect('"');
+        return str;
+      }
+      case "list": {
+        const items = this.sequence("[", "]", () => this.value(type.element));
+        return type.element.kind === "u8" ? new Uint8Array(items as number[]) : items;
+      }
+      case "tuple": {
+        let idx = 0;
+        const items = this.sequence("(", ")", () => {
+          const itemType = type.items[idx++];
+          if (itemType === undefined) this.fail(`too many tuple items, expected ${type.items.length}`);
+          return this.value(itemType);
+        });
+        if (items.length !== type.items.length) this.fail(`expected ${type.items.length} tuple items`);
+        return items;
+      }
+      case "record": {
+        const record: { [name: string]: unknown } = {};
+        this.sequence("{", "}", () => {
+          const name = this.id();
+          const field = type.fields.find((field) => field.name === name);
+          if (field === undefined) this.fail(`unknown field ${name} of ${type.name}`);
+          this.skipWhitespace();
+          this.expect(":");
+          record[camelCase(name)] = this.value(field.type);
+        });
+        for (const field of type.fields) {
+          if (!(camelCase(field.name) in record)) {
+            if (field.type.kind !== "option") this.fail(`missing field ${field.name} of ${type.name}`);
+            record[camelCase(field.name)] = undefined;
+          }
+        }
+        return record;
+      }
+      case "flags": {
+        const flags: { [name: string]: boolean } = Object.fromEntries(
+          type.flags.map((flag) => [camelCase(flag), false]),
+        );
+        this.sequence("{", "}", () => {
+          const name = this.id();
+          if (!type.flags.includes(name)) this.fail(`unknown flag ${name} of ${type.name}`);
+          flags[camelCase(name)] = true;
+        });
+        return flags;
+      }
+      case "enum": {
+        const name = this.id();
+        if (!type.cases.includes(name)) this.fail(`unknown case ${name} of ${type.name}`);
+        return name;
+      }
+      case "variant": {
+        const name = this.id();
+        const variantCase = type.cases.find((c) => c.name === name);
+        if (variantCase === undefined) this.fail(`unknown case ${name} of ${type.name}`);
+        return { tag: name, val: variantCase.type !== undefined ? this.payload(variantCase.type) : undefined };
+      }
+      case "option": {
+        const name = this.id();
+        if (name === "none") return isNestedOption(type) ? { tag: "none" } : undefined;
+        if (name !== "some") this.fail(`expected some or none, got ${name}`);
+        const value = this.payload(type.inner);
+        return type.inner.kind === "option" ? { tag: "some", val: value } : value;
+      }
+      case "result": {
+        const name = this.id();
+        if (name !== "ok" && name !== "err") this.fail(`expected ok or err, got ${name}`);
+        const payloadType = name === "ok" ? type.ok : type.err;
+        this.skipWhitespace();
+        return { tag: name, val: payloadType !== undefined ? this.payload(payloadType) : undefined };
+      }
+      case "handle":
+        this.fail("resource handles are not supported");
+    }
+  }
+
+  end() {
+    this.skipWhitespace();
+    if (this.pos < this.text.length) this.fail("unexpected trailing characters");
+  }
+
+  private payload(type: WitType): unknown {
+    this.skipWhitespace();
+    this.expect("(");
+    const value = this.value(type);
+    this.skipWhitespace();
+    this.expect(")");
+    return value;
+  }
+
+  private sequence(open: string, close: string, item: () => unknown): unknown[] {
+    this.expect(open);
+    const items: unknown[] = [];
+    this.skipWhitespace();
+    while (this.peek() !== close) {
+      items.push(item());
+      this.skipWhitespace();
+      if (this.peek() !== close) {
+        this.expect(",");
+        this.skipWhitespace();
+      }
+    }
+    this.expect(close);
+    return items;
+  }
+
+  private char(quote: string): string {
+    const c = this.text[this.pos++];
+    if (c === undefined) this.fail(`unterminated ${quote === '"' ? "string" : "char"}`);
+    if (c !== "\\") return c;
+
+    const escaped = this.text[this.pos++];
+    const escapes: { [c: string]: string } = { n: "\n", t: "\t", r: "\r", "\\": "\\", "'": "'", '"': '"' };
+    if (escaped !== undefined && escapes[escaped] !== undefined) return escapes[escaped];
+    if (escaped === "u") {
+      const code = this.match(/\{[0-9a-fA-F]+\}/, "unicode escape");
+      return String.fromCodePoint(parseInt(code.substring(1, code.length - 1), 16));
+    }
+    this.fail(`invalid escape: \\${escaped}`);
+  }
+
+  private id(): string {
+    return this.match(/%?[a-z][a-z0-9-]*/, "identifier").replace(/^%/, "");
+  }
+
+  private match(regex: RegExp, expected: string): string {
+    const match = new RegExp(regex.source, "y");
+    match.lastIndex = this.pos;
+    const result = match.exec(this.text);
+    if (result === null) this.fail(`expected ${expected}`);
+    this.pos += result[0].length;
+    return result[0];
+  }
+
+  private expect(str: string) {
+    if (!this.text.startsWith(str, this.pos)) this.fail(`expected ${str}`);
+    this.pos += str.length;
+  }
+
+  private peek(): string | undefined {
+    return this.text[this.pos];
+  }
+
+  private skipWhitespace() {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos] as string)) this.pos++;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`Invalid WAVE value at position ${this.pos} of ${JSON.stringify(this.text)}: ${message}`);
+  }
+}
+
+export function formatWave(value: unknown, type: WitType): string {
+  switch (type.kind) {
+    case "f32":
+    case "f64": {
+      const number = value as number;
+      return Number.isNaN(number) ? "nan" : number === Infinity ? "inf" : number === -Infinity ? "-inf" : `${number}`;
+    }
+    case "char":
+      return `'${escapeWave(value as string, "'")}'`;
+    case "string":
+      return `"${escapeWave(value as string, '"')}"`;
+    case "list":
+      return `[${Array.from(value as ArrayLike<unknown>, (item) => formatWave(item, type.element)).join(", ")}]`;
+    case "tuple":
+      return `(${type.items.map((itemType, idx) => formatWave((value as unknown[])[idx], itemType)).join(", ")})`;
+    case "record": {
+      const record = value as { [name: string]: unknown };
+      const fields = type.fields
+        .filter((field) => field.type.kind !== "option" || record[camelCase(field.name)] !== undefined)
+        .map((field) => `${field.name}: ${formatWave(record[camelCase(field.name)], field.type)}`);
+      return `{${fields.join(", ")}}`;
+    }
+    case "flags": {
+      const flags = value as { [name: string]: boolean };
+      return `{${type.flags.filter((flag) => flags[camelCase(flag)]).join(", ")}}`;
+    }
+    case "enum":
+      return value as string;
+    case "variant": {
+      const { tag, val } = value as Tagged;
+      const caseType = type.cases.find((c) => c.name === tag)?.type;
+      return caseType !== undefined ? `${tag}(${formatWave(val, caseType)})` : tag;
+    }
+    case "option": {
+      const inner = isNestedOption(type) ? (value as Tagged).val : value;
+      if (isNestedOption(type) ? (value as Tagged).tag === "none" : value === undefined) return "none";
+      return `some(${formatWave(inner, type.inner)})`;
+    }
+    case "result": {
+      const { tag, val } = value as Tagged;
+      const payloadType = tag === "ok" ? type.ok : type.err;
+      return payloadType !== undefined ? `${tag}(${formatWave(val, payloadType)})` : tag;
+    }
+    case "handle":
+      throw new Error("Resource handles are not supported");
+    default:
+      return `${value}`;
+  }
+}
+
+function escapeWave(str: string, quote: string): string {
+  return str.replaceAll(/[\\\n\t\r'"]/g, (c) =>
+    c === "\n" ? "\\n" : c === "\t" ? "\\t" : c === "\r" ? "\\r" : c === quote || c === "\\" ? `\\${c}` : c,
+  );
+}
+
+// JSON
+
+// Converts a value to the JSON representation of golem-cli: 64 bit integers are converted to numbers when they
+// are safe integers, and to strings otherwise
+export function toJson(value: unknown, type: WitType): JsonValue {
+  switch (type.kind) {
+    case "u64":
+    case "s64": {
+      const number = Number(value as bigint);
+      return Number.isSafeInteger(number) ? number : (value as bigint).toString();
+    }
+    case "f32":
+    case "f64":
+      return Number.isFinite(value) ? (value as number) : `${formatWave(value, type)}`;
+    case "list":
+      return Array.from(value as ArrayLike<unknown>, (item) => toJson(item, type.element));
+    case "tuple":
+      return type.items.map((itemType, idx) => toJson((value as unknown[])[idx], itemType));
+    case "record": {
+      const record = value as { [name: string]: unknown };
+      return Object.fromEntries(
+        type.fields.map((field) => [field.name, toJson(record[camelCase(field.name)], field.type)]),
+      );
+    }
+    case "flags": {
+      const flags = value as { [name: string]: boolean };
+      return type.flags.filter((flag) => flags[camelCase(flag)]);
+    }
+    case "variant": {
+      const { tag, val } = value as Tagged;
+      const caseType = type.cases.find((c) => c.name === tag)?.type;
+      return { [tag]: caseType !== undefined ? toJson(val, caseType) : null };
+    }
+    case "option": {
+      if (isNestedOption(type)) {
+        return (value as Tagged).tag === "none" ? null : toJson((value as Tagged).val, type.inner);
+      }
+      return value === undefined ? null : toJson(value, type.inner);
+    }
+    case "result": {
+      const { tag, val } = value as Tagged;
+      const payloadType = tag === "ok" ? type.ok : type.err;
+      return { [tag]: payloadType !== undefined ? toJson(val, payloadType) : null };
+    }
+    case "handle":
+      throw new Error("Resource handles are not supported");
+    default:
+      return value as JsonValue;
+  }
+}
+
+// Converts a value from the JSON representation of golem-cli, the inverse of toJson
+export function fromJson(json: JsonValue, type: WitType): unknown {
+  const unexpected = () => new Error(`Expected ${typeName(type)}, got JSON: ${JSON.stringify(json)}`);
+  switch (type.kind) {
+    case "u64":
+    case "s64":
+      if (typeof json !== "number" && typeof json !== "string") throw unexpected();
+      return BigInt(json);
+    case "f32":
+    case "f64":
+      if (typeof json === "string") return parseWave(json, type);
+      if (typeof json !== "number") throw unexpected();
+      return json;
+    case "list": {
+      if (!Array.isArray(json)) throw unexpected();
+      const items = json.map((item) => fromJson(item, type.element));
+      return type.element.kind === "u8" ? Uint8Array.from(items as number[]) : items;
+    }
+    case "tuple":
+      if (!Array.isArray(json) || json.length !== type.items.length) throw unexpected();
+      return type.items.map((itemType, idx) => fromJson(json[idx] as JsonValue, itemType));
+    case "record": {
+      if (!isJsonObject(json)) throw unexpected();
+      return Object.fromEntries(
+        type.fields.map((field) => [camelCase(field.name), fromJson(json[field.name] ?? null, field.type)]),
+      );
+    }
+    case "flags":
+      if (!Array.isArray(json)) throw unexpected();
+      return Object.fromEntries(type.flags.map((flag) => [camelCase(flag), json.includes(flag)]));
+    case "variant":
+    case "result": {
+      const [entry] = isJsonObject(json) ? Object.entries(json) : [];
+      if (entry === undefined) throw unexpected();
+      const [tag, val] = entry;
+      const payloadType =
+        type.kind === "variant"
+          ? type.cases.find((c) => c.name === tag)?.type
+          : tag === "ok"
+            ? type.ok
+            : tag === "err"
+              ? type.err
+              : undefined;
+      if (type.kind === "variant" && payloadType === undefined) {
+        return { tag };
+      }
+      return { tag, val: payloadType !== undefined ? fromJson(val, payloadType) : undefined };
+    }
+    case "option": {
+      if (isNestedOption(type)) {
+        return json === null ? { tag: "none" } : { tag: "some", val: fromJson(json, type.inner) };
+      }
+      return json === null ? undefined : fromJson(json, type.inner);
+    }
+    case "enum":
+      if (typeof json !== "string" || !type.cases.includes(json)) throw unexpected();
+      return json;
+    case "handle":
+      throw new Error("Resource handles are not supported");
+    case "bool":
+      if (typeof json !== "boolean") throw unexpected();
+      return json;
+    case "char":
+    case "string":
+      if (typeof json !== "string") throw unexpected();
+      return json;
+    default:
+      if (typeof json !== "number") throw unexpected();
+      return json;
+  }
+}
+
+function isJsonObject(json: JsonValue): json is { [key: string]: JsonValue } {
+  return typeof json === "object" && json !== null && !Array.isArray(json);
+}
+
+// WitValue
+
+export function toWitValue(value: unknown, type: WitType): WitValue {
+  const nodes: WitNode[] = [];
+  const add = (value: unknown, type: WitType): number => {
+    const idx = nodes.length;
+    nodes.push({ tag: "prim-bool", val: false });
+    nodes[idx] = toWitNode(value, type, add);
+    return idx;
+  };
+  add(value, type);
+  return { nodes };
+}
+
+function toWitNode(value: unknown, type: WitType, add: (value: unknown, type: WitType) => number): WitNode {
+  switch (type.kind) {
+    case "bool":
+      return { tag: "prim-bool", val: value as boolean };
+    case "u8":
+    case "u16":
+    case "u32":
+    case "s8":
+    case "s16":
+    case "s32":
+      return { tag: `prim-${type.kind}`, val: value as number };
+    case "u64":
+    case "s64":
+      return { tag: `prim-${type.kind}`, val: value as bigint };
+    case "f32":
+      return { tag: "prim-float32", val: value as number };
+    case "f64":
+      return { tag: "prim-float64", val: value as number };
+    case "char":
+      return { tag: "prim-char", val: value as string };
+    case "string":
+      return { tag: "prim-string", val: value as string };
+    case "list":
+      return {
+        tag: "list-value",
+        val: Int32Array.from(Array.from(value as ArrayLike<unknown>, (item) => add(item, type.element))),
+      };
+    case "tuple":
+      return {
+        tag: "tuple-value",
+        val: Int32Array.from(type.items.map((itemType, idx) => add((value as unknown[])[idx], itemType))),
+      };
+    case "record": {
+      const record = value as { [name: string]: unknown };
+      return {
+        tag: "record-value",
+        val: Int32Array.from(type.fields.map((field) => add(record[camelCase(field.name)], field.type))),
+      };
+    }
+    case "flags": {
+      const flags = value as { [name: string]: boolean };
+      return { tag: "flags-value", val: type.flags.map((flag) => flags[camelCase(flag)] === true) };
+    }
+    case "enum":
+      return { tag: "enum-value", val: type.cases.indexOf(value as string) };
+    case "variant": {
+      const { tag, val } = value as Tagged;
+      const caseIdx = type.cases.findIndex((c) => c.name === tag);
+      const caseType = type.cases[caseIdx]?.type;
+      return { tag: "variant-value", val: [caseIdx, caseType !== undefined ? add(val, caseType) : undefined] };
+    }
+    case "option": {
+      const none = isNestedOption(type) ? (value as Tagged).tag === "none" : value === undefined;
+      const inner = isNestedOption(type) ? (value as Tagged).val : value;
+      return { tag: "option-value", val: none ? undefined : add(inner, type.inner) };
+    }
+    case "result": {
+      const { tag, val } = value as Tagged;
+      const payloadType = tag === "ok" ? type.ok : type.err;
+      return {
+        tag: "result-value",
+        val: { tag: tag as "ok" | "err", val: payloadType !== undefined ? add(val, payloadType) : undefined },
+      };
+    }
+    case "handle":
+      throw new Error("Resource handles are not supported");
+  }
+}
+
+export function fromWitValue(witValue: WitValue, type: WitType): unknown {
+  const get = (idx: number, type: WitType): unknown => {
+    const node = witValue.nodes[idx];
+    if (node === undefined) {
+      throw new Error(`Invalid WitValue, missing node: ${idx}`);
+    }
+    return fromWitNode(node, type, get);
+  };
+  return get(0, type);
+}
+
+function fromWitNode(node: WitNode, type: WitType, get: (idx: number, type: WitType) => unknown): unknown {
+  const expectTag = (tag: string) => {
+    if (node.tag !== tag) {
+      throw new Error(`Invalid WitValue, expected ${tag} for ${typeName(type)}, got ${node.tag}`);
+    }
+    return node.val;
+  };
+
+  switch (type.kind) {
+    case "f32":
+      return expectTag("prim-float32");
+    case "f64":
+      return expectTag("prim-float64");
+    case "list": {
+      const items = Array.from(expectTag("list-value") as Int32Array, (idx) => get(idx, type.element));
+      return type.element.kind === "u8" ? new Uint8Array(items as number[]) : items;
+    }
+    case "tuple": {
+      const idxs = Array.from(expectTag("tuple-value") as Int32Array);
+      return type.items.map((itemType, i) => get(idxs[i] as number, itemType));
+    }
+    case "record": {
+      const idxs = Array.from(expectTag("record-value") as Int32Array);
+      return Object.fromEntries(
+        type.fields.map((field, i) => [camelCase(field.name), get(idxs[i] as number, field.type)]),
+      );
+    }
+    case "flags": {
+      const flags = expectTag("flags-value") as boolean[];
+      return Object.fromEntries(type.flags.map((flag, i) => [camelCase(flag), flags[i] === true]));
+    }
+    case "enum":
+      return type.cases[expectTag("enum-value") as number];
+    case "variant": {
+      const [caseIdx, payloadIdx] = expectTag("variant-value") as [number, number | undefined];
+      const variantCase = type.cases[caseIdx];
+      if (variantCase === undefined) {
+        throw new Error(`Invalid WitValue, unknown case ${caseIdx} of ${type.name}`);
+      }
+      return {
+        tag: variantCase.name,
+        val: variantCase.type !== undefined && payloadIdx !== undefined ? get(payloadIdx, variantCase.type) : undefined,
+      };
+    }
+    case "option": {
+      const idx = expectTag("option-value") as number | undefined;
+      const inner = idx !== undefined ? get(idx, type.inner) : undefined;
+      if (isNestedOption(type)) {
+        return idx === undefined ? { tag: "none" } : { tag: "some", val: inner };
+      }
+      return inner;
+    }
+    case "result": {
+      const { tag, val } = expectTag("result-value") as { tag: "ok" | "err"; val: number | undefined };
+      const payloadType = tag === "ok" ? type.ok : type.err;
+      return { tag, val: payloadType !== undefined && val !== undefined ? get(val, payloadType) : undefined };
+    }
+    case "handle":
+      throw new Error("Resource handles are not supported");
+    default:
+      return expectTag(`prim-${type.kind}`);
+  }
+}
@@ -0,0 +1,222 @@
+import { randomUUID } from "node:crypto";
+import { Dependencies } from "../build-tools/build-tools";
+import { componentIdEnvVarKey, componentIdFromURN } from "../build-tools/component-cfg";
+import {
+  DeployEnvironment,
+  deployEnvironment,
+  deployedComponentName,
+  environmentEnvVar,
+  loadProject,
+  projectDependencies,
+} from "../build-tools/project";
+import { WitFunction } from "../build-tools/wit";
+import { fromJson, formatWave, JsonValue } from "../local-golem/values";
+import { runOutput } from "../lib/process";
+
+export type { WitFunction } from "../build-tools/wit";
+
+// Client for testing deployed components through golem-cli, component names are the names used in the project, which
+// are mapped to the deployed names of the tested environment. The typed worker classes are generated by build.ts for
+// every component from its main.wit into test/generated, e.g.:
+//
+//   const golem = new GolemTestClient();
+//   after(() => golem.cleanup());
+//
+//   const worker = await golem.addWorker(ComponentOneWorker);
+//   await worker.componentOneApi.add(BigInt(2));
+
+export type Result<T, E> = { tag: "ok"; val: T } | { tag: "err"; val: E };
+
+export interface GolemTestClientOptions {
+  manifestPath?: string;
+  // Environment of the project manifest to test, defaults to the one selected by build.ts (see test --env)
+  environment?: string;
+  // Prefix of the generated unique worker names
+  workerNamePrefix?: string;
+  // Timeout of the golem-cli calls in milliseconds, defaults to one minute
+  timeout?: number;
+}
+
+export interface TestWorkerClass<W extends TestWorker> {
+  readonly componentName: string;
+
+  new (client: GolemTestClient, workerName: string): W;
+}
+
+interface WorkerId {
+  componentName: string;
+  workerName: string;
+}
+
+export class GolemTestClient {
+  readonly environment: DeployEnvironment;
+  private readonly dependencies: Dependencies;
+  private readonly workerNamePrefix: string;
+  private readonly timeout: number;
+  private readonly componentURNs = new Map<string, Promise<string>>();
+  // Workers used through the client, deleted by cleanup
+  private readonly workers: WorkerId[] = [];
+
+  constructor(options: GolemTestClientOptions = {}) {
+    const project = loadProject(options.manifestPath);
+    this.environment = deployEnvironment(project, options.environment ?? process.env[environmentEnvVar]);
+    this.dependencies = projectDependencies(project);
+    this.workerNamePrefix = options.workerNamePrefix ?? "test";
+    this.timeout = options.timeout ?? 60 * 1000;
+  }
+
+  uniqueWorkerName(): string {
+    return `${this.workerNamePrefix}-${randomUUID()}`;
+  }
+
+  async componentMetadata(componentName: string): Promise<{ [key: string]: JsonValue }> {
+    return JSON.parse(
+      await this.golemCli([
+        "--format",
+        "json",
+        "component",
+        "get",
+        "--component-name",
+        this.deployedName(componentName),
+      ]),
+    );
+  }
+
+  componentURN(componentName: string): Promise<string> {
+    let urn = this.componentURNs.get(componentName);
+    if (urn === undefined) {
+      urn = this.componentMetadata(componentName).then((metadata) => {
+        const componentUrn = metadata["componentUrn"];
+        if (typeof componentUrn !== "string") {
+          throw new Error(`Missing component URN in the metadata of ${componentName}`);
+        }
+        return componentUrn;
+      });
+      this.componentURNs.set(componentName, urn);
+    }
+    return urn;
+  }
+
+  async componentId(componentName: string): Promise<string> {
+    return componentIdFromURN(await this.componentURN(componentName));
+  }
+
+  // Environment variables with the deployed component IDs of the RPC dependencies of the component
+  async dependencyEnv(componentName: string): Promise<{ [key: string]: string }> {
+    const env: { [key: string]: string } = {};
+    for (const dep of this.dependencies[componentName] ?? []) {
+      env[componentIdEnvVarKey(dep)] = await this.componentId(dep);
+    }
+    return env;
+  }
+
+  // Creates a worker with the dependency and the environment specific environment variables (and with a unique name
+  // if not specified)
+  async addWorker<W extends TestWorker>(
+    workerClass: TestWorkerClass<W>,
+    workerName: string = this.uniqueWorkerName(),
+    env: { [key: string]: string } = {},
+  ): Promise<W> {
+    const componentName = workerClass.componentName;
+    const envArgs = Object.entries({
+      ...(await this.dependencyEnv(componentName)),
+      ...this.environment.workerEnv,
+      ...env,
+    }).flatMap(([key, value]) => ["--env", `${key}=${value}`]);
+    await this.golemCli([
+      "worker",
+      "add",
+      "--component-name",
+      this.deployedName(componentName),
+      "--worker-name",
+      workerName,
+      ...envArgs,
+    ]);
+    return this.worker(workerClass, workerName);
+  }
+
+  // Returns a worker without creating it, e.g. for workers created by invocations or RPC calls
+  worker<W extends TestWorker>(workerClass: TestWorkerClass<W>, workerName: string): W {
+    const componentName = workerClass.componentName;
+    if (!this.workers.some((w) => w.componentName === componentName && w.workerName === workerName)) {
+      this.workers.push({ componentName, workerName });
+    }
+    return new workerClass(this, workerName);
+  }
+
+  // Invokes a function with WAVE encoded arguments, and returns the results in the JSON format of golem-cli
+  async invokeAndAwait(
+    componentName: string,
+    workerName: string,
+    functionName: string,
+    args: string[],
+  ): Promise<JsonValue[]> {
+    const output = await this.golemCli([
+      "--format",
+      "json",
+      "worker",
+      "invoke-and-await",
+      "--component-name",
+      this.deployedName(componentName),
+      "--worker-name",
+      workerName,
+      "--function",
+      functionName,
+      ...args.flatMap((arg) => ["--arg", arg]),
+    ]);
+    return JSON.parse(output)["value"];
+  }
+
+  async deleteWorker(componentName: string, workerName: string) {
+    await this.golemCli([
+      "worker",
+      "delete",
+      "--component-name",
+      this.deployedName(componentName),
+      "--worker-name",
+      workerName,
+    ]);
+  }
+
+  // Deletes the workers used through the client, failures are only reported as warnings, as workers which were
+  // never invoked might not exist
+  async cleanup() {
+    for (const { componentName, workerName } of this.workers.splice(0)) {
+      try {
+        await this.deleteWorker(componentName, workerName);
+      } catch (error) {
+        console.warn(`Failed to delete worker ${componentName}/${workerName}: ${error}`);
+      }
+    }
+  }
+
+  private deployedName(componentName: string): string {
+    return deployedComponentName(this.environment, componentName);
+  }
+
+  private golemCli(args: string[]): Promise<string> {
+    const profile = this.environment.profile;
+    const profileArgs = profile !== undefined ? ["--profile", profile] : [];
+    return runOutput("golem-cli", [...profileArgs, ...args], { timeout: this.timeout });
+  }
+}
+
+// Base class of the generated typed workers
+export abstract class TestWorker {
+  protected constructor(
+    readonly client: GolemTestClient,
+    readonly componentName: string,
+    readonly workerName: string,
+  ) {}
+
+  protected async invoke(interfaceName: string, fn: WitFunction, args: unknown[]): Promise<unknown> {
+    const waveArgs = fn.params.map((param, idx) => formatWave(args[idx], param.type));
+    const results = await this.client.invokeAndAwait(
+      this.componentName,
+      this.workerName,
+      `${interfaceName}.{${fn.name}}`,
+      waveArgs,
+    );
+    return fn.result !== undefined ? fromJson(results[0] ?? null, fn.result) : undefined;
+  }
+}
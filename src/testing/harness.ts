@@ -0,0 +1,215 @@
+import fs from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { register } from "node:module";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { componentIdEnvVarKey, generateCfgModule } from "../build-tools/component-cfg";
+import { defaultProjectManifest, loadProject, Project, projectDependencies } from "../build-tools/project";
+import { componentMainWit } from "../build-tools/rpc-dependencies";
+import { parseWitWorldFile } from "../build-tools/wit";
+import {
+  defaultRetryPolicy,
+  HostWorker,
+  hostInterfaces,
+  invoke,
+  LogEntry,
+  PersistenceLevel,
+  RetryPolicy,
+  runInvocation,
+} from "./host";
+import type { LoaderHooksData } from "./loader-hooks";
+
+// In-process test harness for component code. Workers are created by loading the component's main.ts (and the
+// modules it imports) separately for each worker, with the host interfaces and the RPC stubs implemented
+// in-process (see host.ts), so the components can be unit tested without building and deploying them:
+//
+//   const harness = new TestHarness();
+//   const worker = await harness.worker("component-one", "worker-1");
+//   worker.api<ComponentOneApi>("component-one-api").add(BigInt(2));
+//
+// RPC calls are routed to the workers of the same harness, which have to be created before they are called.
+
+export interface TestHarnessOptions {
+  manifestPath?: string;
+  // Environment variables of all the workers, in addition to the component ID variables
+  env?: { [key: string]: string };
+}
+
+export interface WorkerOptions {
+  env?: { [key: string]: string };
+}
+
+const workerParam = "golem-test-worker";
+const libCfg = fileURLToPath(new URL("../lib/cfg.ts", import.meta.url));
+
+let registeredProject: string | undefined;
+let nextWorkerKey = 0;
+
+export class TestHarness {
+  readonly project: Project;
+  // Random component IDs used for the worker URNs and the component ID environment variables
+  readonly componentIds: { [componentName: string]: string };
+
+  private readonly env: { [key: string]: string };
+  private readonly workers = new Map<string, TestWorker>();
+
+  constructor(options: TestHarnessOptions = {}) {
+    this.project = loadProject(options.manifestPath ?? defaultProjectManifest);
+    this.componentIds = Object.fromEntries(Object.keys(this.project.components).map((name) => [name, randomUUID()]));
+    this.env = {
+      ...Object.fromEntries(Object.entries(this.componentIds).map(([name, id]) => [componentIdEnvVarKey(name), id])),
+      ...options.env,
+    };
+
+    registerLoaderHooks(this.project);
+    generateCfgModules(this.project);
+  }
+
+  // Returns the worker, creating it on first use
+  async worker(componentName: string, workerName: string, options: WorkerOptions = {}): Promise<TestWorker> {
+    const componentId = this.componentIds[componentName];
+    if (componentId === undefined) {
+      throw new Error(`Unknown component: ${componentName}`);
+    }
+
+    const urn = workerURN(componentId, workerName);
+    const existing = this.workers.get(urn);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const mainTs = path.resolve(this.project.componentsDir, componentName, "main.ts");
+    const moduleURL = `${pathToFileURL(mainTs).href}?${workerParam}=${nextWorkerKey++}`;
+    const exports = (await import(moduleURL)) as { [name: string]: unknown };
+
+    const worker = new TestWorker(
+      this,
+      componentName,
+      componentId,
+      workerName,
+      { ...this.env, ...options.env },
+      exports,
+    );
+    this.workers.set(urn, worker);
+    return worker;
+  }
+
+  resolveWorker(workerURN: string): TestWorker {
+    const worker = this.workers.get(workerURN);
+    if (worker === undefined) {
+      throw new Error(`Worker ${workerURN} does not exist, workers have to be created with TestHarness.worker`);
+    }
+    return worker;
+  }
+}
+
+export class TestWorker implements HostWorker {
+  readonly harness: TestHarness;
+  readonly componentName: string;
+  readonly componentId: string;
+  readonly workerName: string;
+  readonly urn: string;
+  readonly env: [string, string][];
+  // Entries logged by the worker using wasi:logging
+  readonly logs: LogEntry[] = [];
+  retryPolicy: RetryPolicy = { ...defaultRetryPolicy };
+  persistenceLevel: PersistenceLevel = { tag: "smart" };
+  idempotenceMode = true;
+  oplogIndex = BigInt(0);
+
+  private readonly exports: { [name: string]: unknown };
+
+  constructor(
+    harness: TestHarness,
+    componentName: string,
+    componentId: string,
+    workerName: string,
+    env: { [key: string]: string },
+    exports: { [name: string]: unknown },
+  ) {
+    this.harness = harness;
+    this.componentName = componentName;
+    this.componentId = componentId;
+    this.workerName = workerName;
+    this.urn = workerURN(componentId, workerName);
+    this.env = Object.entries(env);
+    this.exports = exports;
+  }
+
+  // Returns the exported interface of the worker, invoking its functions the same way as Golem would, e.g.
+  // worker.api<ComponentOneApi>("component-one-api").get()
+  api<T>(interfaceName: string): T {
+    const functions: { [name: string]: (...args: unknown[]) => unknown } = {};
+    for (const functionName of Object.keys(this.interfaceExports(interfaceName))) {
+      functions[functionName] = (...args) => invoke(this, interfaceName, functionName, args);
+    }
+    return functions as T;
+  }
+
+  // Runs the function as an invocation of the worker, e.g. for testing library code which uses the host interfaces
+  // (the library has to be imported after creating the harness, which resolves its golem: and wasi: imports)
+  run<T>(fn: () => T): T {
+    return runInvocation(this, fn);
+  }
+
+  exportedFunction(interfaceName: string, functionName: string): ((...args: unknown[]) => unknown) | undefined {
+    const implementation = this.interfaceExports(interfaceName);
+    const fn = implementation[functionName];
+    return typeof fn === "function" ? (fn as (...args: unknown[]) => unknown).bind(implementation) : undefined;
+  }
+
+  resolveWorker(workerURN: string): HostWorker {
+    return this.harness.resolveWorker(workerURN);
+  }
+
+  // The implementation of an exported interface is exported by main.ts in camel case, e.g. componentOneApi
+  private interfaceExports(interfaceName: string): { [name: string]: unknown } {
+    const exportName = interfaceName.replaceAll(/-([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+    const implementation = this.exports[exportName];
+    if (typeof implementation !== "object" || implementation === null) {
+      throw new Error(`Component ${this.componentName} does not export ${interfaceName} (as ${exportName})`);
+    }
+    return implementation as { [name: string]: unknown };
+  }
+}
+
+function workerURN(componentId: string, workerName: string): string {
+  return `urn:worker:${componentId}/${workerName}`;
+}
+
+// The loader hooks are registered once per process, as they cannot be unregistered
+function registerLoaderHooks(project: Project) {
+  const manifestPath = path.resolve(project.manifestPath);
+  if (registeredProject !== undefined) {
+    if (registeredProject !== manifestPath) {
+      throw new Error(`The test harness is already used with ${registeredProject} in this process`);
+    }
+    return;
+  }
+
+  const data: LoaderHooksData = {
+    namespace: project.namespace,
+    hostModuleURL: new URL("./host.ts", import.meta.url).href,
+    workerParam,
+    hostInterfaces: Object.fromEntries(
+      Object.entries(hostInterfaces).map(([interfaceName, exports]) => [interfaceName, Object.keys(exports)]),
+    ),
+    componentInterfaces: Object.fromEntries(
+      Object.keys(project.components).map((name) => [name, parseWitWorldFile(componentMainWit(project, name)).exports]),
+    ),
+  };
+  register("./loader-hooks.ts", { parentURL: import.meta.url, data });
+  registeredProject = manifestPath;
+}
+
+// Generates the cfg modules of the components the same way as the build, as they are imported by main.ts
+function generateCfgModules(project: Project) {
+  for (const [compName, deps] of Object.entries(projectDependencies(project))) {
+    const cfgModule = path.join(project.componentsDir, compName, "generated", "cfg.ts");
+    const source = generateCfgModule(cfgModule, libCfg, deps);
+    if (!fs.existsSync(cfgModule) || fs.readFileSync(cfgModule).toString() !== source) {
+      fs.mkdirSync(path.dirname(cfgModule), { recursive: true });
+      fs.writeFileSync(cfgModule, source);
+    }
+  }
+}
@@ -0,0 +1,247 @@
+import { randomBytes, randomUUID } from "node:crypto";
+
+// In-process implementations of the host interfaces used by the components, for running component code in
+// unit tests without building and deploying it. The harness loader hooks resolve the golem: and wasi: imports
+// of the component modules to these implementations, and stub imports to stubClass, which calls the target
+// worker directly.
+//
+// Host functions act on behalf of the worker whose invocation is currently running, invocations (including
+// the ones made through stubs) are executed synchronously, the same way as blocking RPC calls in Golem.
+
+export type LogLevel = "trace" | "debug" | "info" | "warn" | "error" | "critical";
+
+export interface LogEntry {
+  level: LogLevel;
+  context: string;
+  message: string;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  minDelay: bigint;
+  maxDelay: bigint;
+  multiplier: number;
+}
+
+export type PersistenceLevel = { tag: "persist-nothing" } | { tag: "persist-remote-side-effects" } | { tag: "smart" };
+
+// Host side state of a worker, implemented by the test harness
+export interface HostWorker {
+  readonly componentName: string;
+  readonly componentId: string;
+  readonly workerName: string;
+  readonly env: [string, string][];
+  readonly logs: LogEntry[];
+  retryPolicy: RetryPolicy;
+  persistenceLevel: PersistenceLevel;
+  idempotenceMode: boolean;
+  oplogIndex: bigint;
+
+  // Returns the function implementing an exported function of the worker
+  exportedFunction(interfaceName: string, functionName: string): ((...args: unknown[]) => unknown) | undefined;
+  // Returns the worker identified by the worker URN, in the same harness
+  resolveWorker(workerURN: string): HostWorker;
+}
+
+export const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 3,
+  minDelay: BigInt(100_000_000),
+  maxDelay: BigInt(1_000_000_000),
+  multiplier: 3,
+};
+
+const invocationStack: HostWorker[] = [];
+
+export function currentWorker(): HostWorker {
+  const worker = invocationStack[invocationStack.length - 1];
+  if (worker === undefined) {
+    throw new Error("Host functions can only be used during worker invocations started by the test harness");
+  }
+  return worker;
+}
+
+// Invokes an exported function of the worker. Arguments and results are copied, as they would be serialized
+// by Golem.
+export function invoke(worker: HostWorker, interfaceName: string, functionName: string, args: unknown[]): unknown {
+  const fn = worker.exportedFunction(interfaceName, functionName);
+  if (fn === undefined) {
+    throw new Error(`Worker ${worker.workerName} of ${worker.componentName} has no function ${functionName}`);
+  }
+  return runInvocation(worker, () => structuredClone(fn(...structuredClone(args))));
+}
+
+// Runs the function as an invocation of the worker, so it can use the host functions on behalf of the worker
+export function runInvocation<T>(worker: HostWorker, fn: () => T): T {
+  if (invocationStack.includes(worker)) {
+    const chain = [...invocationStack, worker].map((w) => `${w.componentName}/${w.workerName}`).join(" -> ");
+    throw new Error(`Invocation would deadlock, as the worker is already running an invocation: ${chain}`);
+  }
+
+  invocationStack.push(worker);
+  try {
+    return fn();
+  } finally {
+    invocationStack.pop();
+  }
+}
+
+export class Pollable {
+  private readonly deadline: bigint | undefined;
+
+  // Pollables without deadline are always ready, as remote calls are executed synchronously
+  constructor(deadline?: bigint) {
+    this.deadline = deadline;
+  }
+
+  ready(): boolean {
+    return this.deadline === undefined || process.hrtime.bigint() >= this.deadline;
+  }
+
+  block(): void {
+    poll([this]);
+  }
+
+  remaining(): bigint {
+    return this.deadline === undefined ? BigInt(0) : this.deadline - process.hrtime.bigint();
+  }
+}
+
+const sleepBuffer = new Int32Array(new SharedArrayBuffer(4));
+
+function poll(pollables: Pollable[]): Uint32Array {
+  if (pollables.length == 0) {
+    throw new Error("poll called without pollables");
+  }
+
+  for (;;) {
+    const ready = pollables.flatMap((pollable, idx) => (pollable.ready() ? [idx] : []));
+    if (ready.length > 0) {
+      return new Uint32Array(ready);
+    }
+    const remainingNs = pollables.map((pollable) => pollable.remaining()).reduce((a, b) => (a < b ? a : b));
+    Atomics.wait(sleepBuffer, 0, 0, Math.max(1, Number(remainingNs / BigInt(1_000_000))));
+  }
+}
+
+function uuid(value: string): { highBits: bigint; lowBits: bigint } {
+  const hex = value.replaceAll("-", "");
+  return { highBits: BigInt(`0x${hex.substring(0, 16)}`), lowBits: BigInt(`0x${hex.substring(16)}`) };
+}
+
+function workerId(worker: HostWorker) {
+  return { componentId: { uuid: uuid(worker.componentId) }, workerName: worker.workerName };
+}
+
+// Exports of the supported host interfaces, by interface name
+export const hostInterfaces: { [interfaceName: string]: { [name: string]: unknown } } = {
+  "golem:api/host@0.2.0": {
+    getSelfMetadata: () => {
+      const worker = currentWorker();
+      return {
+        workerId: workerId(worker),
+        args: [],
+        env: worker.env.map(([key, value]) => [key, value]),
+        status: "running",
+        componentVersion: BigInt(0),
+        retryCount: BigInt(0),
+      };
+    },
+    getRetryPolicy: () => ({ ...currentWorker().retryPolicy }),
+    setRetryPolicy: (policy: RetryPolicy) => {
+      currentWorker().retryPolicy = { ...policy };
+    },
+    getOplogPersistenceLevel: () => ({ ...currentWorker().persistenceLevel }),
+    setOplogPersistenceLevel: (level: PersistenceLevel) => {
+      currentWorker().persistenceLevel = { ...level };
+    },
+    getIdempotenceMode: () => currentWorker().idempotenceMode,
+    setIdempotenceMode: (idempotent: boolean) => {
+      currentWorker().idempotenceMode = idempotent;
+    },
+    getOplogIndex: () => currentWorker().oplogIndex,
+    markBeginOperation: () => ++currentWorker().oplogIndex,
+    markEndOperation: () => {
+      currentWorker().oplogIndex++;
+    },
+    generateIdempotencyKey: () => uuid(randomUUID()),
+  },
+  "golem:rpc/types@0.1.0": {},
+  "wasi:cli/environment@0.2.0": {
+    getEnvironment: () => currentWorker().env.map(([key, value]) => [key, value]),
+    getArguments: () => [],
+    initialCwd: () => undefined,
+  },
+  "wasi:clocks/monotonic-clock@0.2.0": {
+    now: () => process.hrtime.bigint(),
+    resolution: () => BigInt(1),
+    subscribeInstant: (when: bigint) => new Pollable(when),
+    subscribeDuration: (duration: bigint) => new Pollable(process.hrtime.bigint() + duration),
+  },
+  "wasi:clocks/wall-clock@0.2.0": {
+    now: () => {
+      const ms = Date.now();
+      return { seconds: BigInt(Math.floor(ms / 1000)), nanoseconds: (ms % 1000) * 1_000_000 };
+    },
+    resolution: () => ({ seconds: BigInt(0), nanoseconds: 1_000_000 }),
+  },
+  "wasi:io/poll@0.2.0": {
+    Pollable,
+    poll,
+  },
+  "wasi:random/random@0.2.0": {
+    getRandomBytes: (len: bigint) => new Uint8Array(randomBytes(Number(len))),
+    getRandomU64: () => randomBytes(8).readBigUInt64LE(),
+  },
+  "wasi:logging/logging": {
+    log: (level: LogLevel, context: string, message: string) => {
+      currentWorker().logs.push({ level, context, message });
+    },
+  },
+};
+
+export function hostInterface(interfaceName: string): { [name: string]: unknown } {
+  const exports = hostInterfaces[interfaceName];
+  if (exports === undefined) {
+    throw new Error(`Interface ${interfaceName} is not supported by the test harness`);
+  }
+  return exports;
+}
+
+// Returns the stub resource class of an exported interface of a component, e.g. ComponentTwoApi for
+// component-two-api. Blocking functions (blockingAdd) invoke the target worker and return the result,
+// non-blocking ones (add, get) invoke it too, and return an already completed future.
+export function stubClass(componentName: string, interfaceName: string) {
+  return class {
+    constructor(location: { value: string }) {
+      const target = currentWorker().resolveWorker(location.value);
+      if (target.componentName !== componentName) {
+        throw new Error(`Stub of ${componentName} was created for a worker of ${target.componentName}`);
+      }
+
+      return new Proxy(this, {
+        get(obj, prop, receiver) {
+          if (typeof prop !== "string") {
+            return Reflect.get(obj, prop, receiver);
+          }
+
+          const blockingName = /^blocking([A-Z].*)$/.exec(prop)?.[1];
+          if (blockingName !== undefined) {
+            const functionName = blockingName.substring(0, 1).toLowerCase() + blockingName.substring(1);
+            if (target.exportedFunction(interfaceName, functionName) !== undefined) {
+              return (...args: unknown[]) => invoke(target, interfaceName, functionName, args);
+            }
+          }
+
+          if (target.exportedFunction(interfaceName, prop) !== undefined) {
+            return (...args: unknown[]) => {
+              const result = invoke(target, interfaceName, prop, args);
+              return { subscribe: () => new Pollable(), get: () => result };
+            };
+          }
+
+          return Reflect.get(obj, prop, receiver);
+        },
+      });
+    }
+  };
+}
@@ -0,0 +1,85 @@
+import type { InitializeHook, LoadHook, ResolveHook } from "node:module";
+import { dashToPascal } from "../build-tools/component-cfg";
+import { stubImportComponent } from "../build-tools/wit";
+
+// Module loader hooks of the test harness, registered by TestHarness. They run on the loader thread, so
+// everything they need is passed as initialization data.
+//
+// - golem: and wasi: imports are resolved to generated modules re-exporting the in-process host implementations
+//   of src/testing/host.ts, and stub imports to modules exporting the stub classes of the called component
+// - the worker query parameter of component modules is propagated to the local modules they import, so every
+//   worker gets its own instance of the component and of the libraries it uses (e.g. its own state)
+
+export interface LoaderHooksData {
+  namespace: string;
+  hostModuleURL: string;
+  workerParam: string;
+  // Export names of the supported host interfaces
+  hostInterfaces: { [interfaceName: string]: string[] };
+  // Exported interfaces of the project components, by component name
+  componentInterfaces: { [componentName: string]: string[] };
+}
+
+const virtualScheme = "golem-test:";
+
+let data: LoaderHooksData;
+
+export const initialize: InitializeHook<LoaderHooksData> = async (hooksData) => {
+  data = hooksData;
+};
+
+export const resolve: ResolveHook = async (specifier, context, nextResolve) => {
+  if (/^(golem|wasi):/.test(specifier)) {
+    return { url: `${virtualScheme}${encodeURIComponent(specifier)}`, shortCircuit: true };
+  }
+
+  const resolved = await nextResolve(specifier, context);
+  const worker = context.parentURL?.startsWith("file:")
+    ? new URL(context.parentURL).searchParams.get(data.workerParam)
+    : null;
+  if (worker === null || !resolved.url.startsWith("file:") || resolved.url.includes("/node_modules/")) {
+    return resolved;
+  }
+
+  const url = new URL(resolved.url);
+  url.searchParams.set(data.workerParam, worker);
+  return { ...resolved, url: url.href };
+};
+
+export const load: LoadHook = async (url, context, nextLoad) => {
+  if (!url.startsWith(virtualScheme)) {
+    return nextLoad(url, context);
+  }
+
+  const specifier = decodeURIComponent(url.substring(virtualScheme.length));
+  return { format: "module", source: virtualModuleSource(specifier), shortCircuit: true };
+};
+
+function virtualModuleSource(specifier: string): string {
+  const hostModule = JSON.stringify(data.hostModuleURL);
+
+  const componentName = stubImportComponent(data.namespace, specifier);
+  if (componentName !== undefined) {
+    const interfaceNames = data.componentInterfaces[componentName];
+    if (interfaceNames === undefined) {
+      throw new Error(`Stub import of unknown component: ${specifier}`);
+    }
+    return [
+      `import { stubClass } from ${hostModule};`,
+      ...interfaceNames.map(
+        (interfaceName) =>
+          `export const ${dashToPascal(interfaceName)} = stubClass(${JSON.stringify(componentName)}, ${JSON.stringify(interfaceName)});`,
+      ),
+    ].join("\n");
+  }
+
+  const exportNames = data.hostInterfaces[specifier];
+  if (exportNames === undefined) {
+    throw new Error(`Interface ${specifier} is not supported by the test harness`);
+  }
+  return [
+    `import { hostInterface } from ${hostModule};`,
+    `const exports = hostInterface(${JSON.stringify(specifier)});`,
+    ...exportNames.map((name) => `export const ${name} = exports.${name};`),
+  ].join("\n");
+}
@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { BuildCache } from "../src/build-tools/build-cache";
+
+test("The least recently used cache entries of a task are evicted", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "build-cache-"));
+  try {
+    const target = path.join(dir, "target.txt");
+    const cache = new BuildCache(dir, 2);
+    const store = (key: string, hash: string) => {
+      fs.writeFileSync(target, hash);
+      cache.store(key, hash, [target]);
+    };
+    const restore = (key: string, hash: string) => cache.restore(key, hash, [target]);
+
+    store("task", "a");
+    store("task", "b");
+    store("other", "c");
+    assert.ok(restore("task", "a"));
+    assert.equal(fs.readFileSync(target).toString(), "a");
+
+    // b is the least recently used entry of the task, the entry of the other task is kept
+    store("task", "d");
+    assert.deepEqual(fs.readdirSync(path.join(dir, "cache")).sort(), ["a", "c", "d"]);
+    assert.ok(!restore("task", "b"));
+
+    // The entries of the tasks are kept in the manifest
+    assert.ok(!new BuildCache(dir, 2).restore("task", "b", [target]));
+    new BuildCache(dir, 1).store("task", "e", [target]);
+    assert.deepEqual(fs.readdirSync(path.join(dir, "cache")).sort(), ["c", "e"]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
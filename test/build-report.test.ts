@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { runTask, setBuildStateDir, startBuildReport, TaskGraph } from "../src/build-tools/build-tools";
+
+test("Task executions are recorded in the build report", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "build-report-"));
+  const source = path.join(dir, "source.txt");
+  const target = path.join(dir, "target.txt");
+  fs.writeFileSync(source, "source");
+  setBuildStateDir(dir);
+
+  const copyTask = () =>
+    runTask({
+      runMessage: "Copying",
+      skipMessage: "copy",
+      sources: [source],
+      targets: [target],
+      inputs: { version: 1 },
+      run: async () => fs.copyFileSync(source, target),
+    });
+
+  const report = startBuildReport();
+  const graph = new TaskGraph();
+  graph.add("copy:first", [], copyTask);
+  graph.add("copy:second", ["copy:first"], copyTask);
+  graph.add("fail", ["copy:second"], () =>
+    runTask({
+      runMessage: "Failing",
+      skipMessage: "failure",
+      sources: [],
+      targets: [],
+      run: async () => {
+        throw new Error("failed task");
+      },
+    }),
+  );
+  await assert.rejects(() => graph.run(1), /failed task/);
+
+  assert.deepEqual(
+    report.tasks.map((record) => [record.task, record.status]),
+    [
+      ["copy:first", "ran"],
+      ["copy:second", "skipped"],
+      ["fail", "failed"],
+    ],
+  );
+  assert.deepEqual(report.tasks[0]!.inputs, { version: 1 });
+  assert.deepEqual(report.tasks[0]!.targets, [target]);
+  assert.equal(report.tasks[2]!.error, "failed task");
+
+  const json = report.toJson(false, [{ component: "component-one", wasm: target, size: 6 }]);
+  assert.equal(json.success, false);
+  assert.equal(json.components[0]!.size, 6);
+  assert.match(report.formatSummary(json.components), /3 tasks \(1 ran, 1 skipped, 1 failed\)/);
+});
+
+test("Task graphs are only run with a positive integer number of parallel tasks", async () => {
+  const graph = new TaskGraph();
+  graph.add("noop", [], async () => {});
+  await assert.rejects(() => graph.run(0), /must be a positive integer, got: 0/);
+  await assert.rejects(() => graph.run(1.5), /must be a positive integer, got: 1.5/);
+  await graph.run(1);
+});
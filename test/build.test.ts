@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { runCapture } from "../src/lib/process";
+
+const projectFiles = ["build.ts", "package.json", "tsconfig.json", "golem-project.json", "src", "component-template"];
+
+// Copies the project without outputs and generated code, sharing the installed node_modules
+function cleanProjectCopy(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "build-"));
+  for (const file of projectFiles) {
+    fs.cpSync(file, path.join(dir, file), {
+      recursive: true,
+      filter: (source) => path.basename(source) !== "generated",
+    });
+  }
+  fs.symlinkSync(path.resolve("node_modules"), path.join(dir, "node_modules"), "dir");
+  return dir;
+}
+
+test(
+  "A component without dependencies is built from a clean state on its own",
+  { timeout: 10 * 60 * 1000 },
+  async () => {
+    const dir = cleanProjectCopy();
+    try {
+      const result = await runCapture(
+        path.resolve("node_modules", ".bin", "tsx"),
+        ["build.ts", "build", "--component", "component-three", "--jobs", "1"],
+        { cwd: dir, timeout: 10 * 60 * 1000 },
+      );
+      assert.equal(result.code, 0, `${result.stdout}${result.stderr}`);
+      assert.ok(fs.existsSync(path.join(dir, "out", "components", "component-three.wasm")));
+      // The bindings of the other components are not needed
+      assert.ok(!fs.existsSync(path.join(dir, "src", "components", "component-one", "generated")));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  },
+);
@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import path from "node:path";
+import { budgetExceeded, bundleStats, formatBudgetUsage } from "../src/build-tools/bundle-analysis";
+import { parseSize } from "../src/build-tools/build-report";
+
+test("Sizes are parsed from bytes and strings with units", () => {
+  assert.equal(parseSize(1024), 1024);
+  assert.equal(parseSize("512"), 512);
+  assert.equal(parseSize("64 KiB"), 64 * 1024);
+  assert.equal(parseSize("1.5MB"), 1500000);
+  assert.equal(parseSize("12 mib"), 12 * 1024 * 1024);
+  assert.equal(parseSize("12 GiB"), undefined);
+  assert.equal(parseSize(-1), undefined);
+  assert.equal(parseSize(true), undefined);
+});
+
+test("Bundle modules are categorized and sorted by size", () => {
+  const componentDir = path.join("src", "components", "component-one");
+  const libDir = path.join("src", "lib");
+  const stats = bundleStats(
+    {
+      [path.resolve(componentDir, "main.ts")]: { renderedLength: 100 },
+      [path.resolve(libDir, "cfg.ts")]: { renderedLength: 50 },
+      [path.resolve("node_modules", "@golemcloud", "golem-ts", "dist", "index.mjs")]: { renderedLength: 300 },
+      "\0tslib.js": { renderedLength: 10 },
+    },
+    500,
+    componentDir,
+    libDir,
+  );
+
+  assert.deepEqual(
+    stats.modules.map((module) => [module.category, module.size]),
+    [
+      ["node_modules", 300],
+      ["component", 100],
+      ["lib", 50],
+      ["other", 10],
+    ],
+  );
+  assert.equal(stats.modules[1]!.id, path.join(componentDir, "main.ts"));
+});
+
+test("Size budgets are exceeded only above the budget", () => {
+  assert.equal(budgetExceeded({ name: "wasm", size: 1024, budget: 1024 }), false);
+  assert.equal(budgetExceeded({ name: "wasm", size: 1025, budget: 1024 }), true);
+  assert.equal(formatBudgetUsage({ name: "bundle", size: 512, budget: 1024 }), "bundle 512 B of 1.0 KiB budget (50%)");
+});
@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { cmd, command, Commands, main } from "../src/build-tools/cli";
+
+async function runMain(commands: Commands, args: string[]) {
+  process.argv = ["node", "build.ts", ...args];
+  process.exitCode = undefined;
+  await main(commands);
+  const exitCode = process.exitCode;
+  process.exitCode = undefined;
+  return exitCode;
+}
+
+test("Commands with arguments and options can be chained", async () => {
+  const calls: unknown[] = [];
+  const commands: Commands = {
+    build: command({
+      description: "build",
+      options: {
+        component: { type: "strings", description: "component" },
+        jobs: { type: "number", short: "j", default: 1, description: "jobs" },
+        verbose: { type: "boolean", description: "verbose" },
+      },
+      run: async (_, options) => {
+        calls.push(["build", options]);
+      },
+    }),
+    deploy: command({
+      description: "deploy",
+      args: [{ name: "component-name", description: "component" }],
+      run: async (args) => {
+        calls.push(["deploy", args["component-name"]]);
+      },
+    }),
+    clean: cmd(async () => {
+      calls.push(["clean"]);
+    }, "clean"),
+  };
+
+  const exitCode = await runMain(commands, [
+    "clean",
+    "build",
+    "--component",
+    "a",
+    "--component=b",
+    "-j",
+    "4",
+    "--verbose",
+    "deploy",
+    "build",
+    "build",
+  ]);
+
+  assert.equal(exitCode, undefined);
+  assert.deepEqual(calls, [
+    ["clean"],
+    ["build", { component: ["a", "b"], jobs: 4, verbose: true }],
+    ["deploy", "build"],
+    ["build", { component: [], jobs: 1, verbose: false }],
+  ]);
+});
+
+test("Usage errors are reported before running any command", async () => {
+  let runs = 0;
+  const commands: Commands = {
+    build: command({
+      description: "build",
+      options: { jobs: { type: "number", min: 1, integer: true, description: "jobs" } },
+      run: async () => {
+        runs++;
+      },
+    }),
+  };
+
+  assert.equal(await runMain(commands, ["build", "build", "--jobs", "0"]), 1);
+  assert.equal(await runMain(commands, ["build", "--jobs", "1.5"]), 1);
+  assert.equal(await runMain(commands, ["build", "--job", "2"]), 1);
+  assert.equal(await runMain(commands, ["build", "unexpected"]), 1);
+  assert.equal(await runMain(commands, ["buidl"]), 1);
+  assert.equal(runs, 0);
+});
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  componentBuildConfigFile,
+  componentizeArgs,
+  loadComponentBuildConfig,
+  rollupConfigInputs,
+} from "../src/build-tools/component-build-config";
+
+test("Component build config is optional and validated", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "component-build-config-"));
+  try {
+    assert.deepEqual(await loadComponentBuildConfig(dir), {});
+
+    const configPath = path.join(dir, componentBuildConfigFile);
+    fs.writeFileSync(configPath, `export default { rollup: { minify: true } };\n`);
+    assert.deepEqual(await loadComponentBuildConfig(dir), { rollup: { minify: true } });
+
+    // Changed configs are reloaded
+    fs.writeFileSync(configPath, `export default { rollup: { minfy: true } };\n`);
+    await assert.rejects(() => loadComponentBuildConfig(dir), /unknown property: rollup.minfy, did you mean: minify\?/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("Component build config settings are mapped to task inputs and componentize args", () => {
+  const config = {
+    rollup: { plugins: [{ name: "banner" }], define: { DEBUG: false }, sourcemap: true },
+    componentize: { disable: ["stdio" as const, "clocks" as const], worldName: "component-one" },
+  };
+
+  assert.deepEqual(rollupConfigInputs(config), {
+    plugins: ["banner"],
+    define: { DEBUG: false },
+    minify: false,
+    sourcemap: true,
+  });
+  assert.deepEqual(componentizeArgs(config), ["--world-name", "component-one", "--disable", "stdio", "clocks"]);
+  assert.deepEqual(componentizeArgs({}), []);
+});
@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { renameComponentReferences } from "../src/build-tools/component-refactor";
+
+const compNames = ["component-one", "component-two", "component-two-client"];
+
+test("WIT package, interfaces and stub imports are renamed", () => {
+  const wit = [
+    "package golem:component-two;",
+    "interface component-two-api {}",
+    "world component-two {",
+    "  import golem:component-two-stub/stub-component-two;",
+    "  import golem:component-two-client-stub/stub-component-two-client;",
+    "  export component-two-api;",
+    "}",
+  ].join("\n");
+
+  assert.equal(
+    renameComponentReferences("wit", wit, "golem", "component-two", "component-deux", compNames),
+    [
+      "package golem:component-deux;",
+      "interface component-deux-api {}",
+      "world component-deux {",
+      "  import golem:component-deux-stub/stub-component-deux;",
+      "  import golem:component-two-client-stub/stub-component-two-client;",
+      "  export component-deux-api;",
+      "}",
+    ].join("\n"),
+  );
+});
+
+test("TypeScript identifiers, binding paths and environment variable keys are renamed", () => {
+  const ts = [
+    'import { ComponentTwoApi } from "golem:component-two-stub/stub-component-two";',
+    'import { ComponentTwoClientApi } from "./generated/component-two-client";',
+    "const componentTwo = new ComponentTwoApi(cfg.getComponentTwoWorkerURN(workerName));",
+    "const key = envVarKeys.COMPONENT_TWO_ID;",
+  ].join("\n");
+
+  assert.equal(
+    renameComponentReferences("ts", ts, "golem", "component-two", "component-deux", compNames),
+    [
+      'import { ComponentDeuxApi } from "golem:component-deux-stub/stub-component-deux";',
+      'import { ComponentTwoClientApi } from "./generated/component-two-client";',
+      "const componentDeux = new ComponentDeuxApi(cfg.getComponentDeuxWorkerURN(workerName));",
+      "const key = envVarKeys.COMPONENT_DEUX_ID;",
+    ].join("\n"),
+  );
+});
+
+test("Single word names are renamed as identifiers in TypeScript", () => {
+  const ts = ['import { CounterApi } from "./generated/counter";', "export const counterApi: CounterApi = {};"].join(
+    "\n",
+  );
+
+  assert.equal(
+    renameComponentReferences("ts", ts, "golem", "counter", "tally-counter", ["counter"]),
+    [
+      'import { TallyCounterApi } from "./generated/tally-counter";',
+      "export const tallyCounterApi: TallyCounterApi = {};",
+    ].join("\n"),
+  );
+});
+
+test("New names containing the old name are not renamed again", () => {
+  const ts = 'import { ComponentTwoApi } from "./generated/component-two";';
+
+  assert.equal(
+    renameComponentReferences("ts", ts, "golem", "component-two", "my-component-two", compNames),
+    'import { MyComponentTwoApi } from "./generated/my-component-two";',
+  );
+});
@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { addStubImports, isValidComponentName, loadComponentTemplates } from "../src/build-tools/component-templates";
+
+test("Component templates are listed without the common directory", () => {
+  const templates = loadComponentTemplates("component-template");
+
+  assert.deepEqual(
+    templates.map((template) => template.name),
+    ["counter", "http-handler", "rpc-client", "stateful"],
+  );
+  assert.deepEqual(
+    templates.filter((template) => template.requiresDependency).map((template) => template.name),
+    ["rpc-client"],
+  );
+});
+
+test("Component names have to be kebab-case WIT identifiers", () => {
+  for (const compName of ["component-four", "c4", "a-b2-c"]) {
+    assert.ok(isValidComponentName(compName), compName);
+  }
+  for (const compName of ["Component-four", "component_four", "component--four", "-four", "four-", "4-four", "x-4"]) {
+    assert.ok(!isValidComponentName(compName), compName);
+  }
+});
+
+test("Stub imports are added after the marker line", () => {
+  const wit = ["world comp {", "  // Project Component dependencies", "", "  export api;", "}"].join("\n");
+
+  assert.equal(
+    addStubImports("main.wit", wit, ["golem:one-stub/stub-one", "golem:two-stub/stub-two"]),
+    [
+      "world comp {",
+      "  // Project Component dependencies",
+      "  import golem:one-stub/stub-one;",
+      "  import golem:two-stub/stub-two;",
+      "",
+      "  export api;",
+      "}",
+    ].join("\n"),
+  );
+  assert.throws(() => addStubImports("main.wit", "world comp {}", ["golem:one-stub/stub-one"]), /Missing/);
+});
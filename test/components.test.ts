@@ -0,0 +1,147 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { TestHarness } from "../src/testing/harness";
+import { defaultRetryPolicy } from "../src/testing/host";
+import { parseTraceSpans, TraceNode, traceTrees } from "../src/build-tools/traces";
+
+interface CounterApi {
+  add(value: bigint, idempotencyKey?: string, traceParent?: string): bigint;
+  get(traceParent?: string): bigint;
+}
+
+const harness = new TestHarness();
+
+async function counters(workerName: string) {
+  const one = await harness.worker("component-one", workerName);
+  const two = await harness.worker("component-two", workerName);
+  const three = await harness.worker("component-three", workerName);
+  return {
+    one: one.api<CounterApi>("component-one-api"),
+    two: two.api<CounterApi>("component-two-api"),
+    three: three.api<CounterApi>("component-three-api"),
+  };
+}
+
+test("Calling add on component one calls other components", async () => {
+  const { one, two, three } = await counters("worker-1");
+
+  one.add(BigInt(2));
+  assert.equal(one.get(), BigInt(2));
+  assert.equal(two.get(), BigInt(2));
+  assert.equal(three.get(), BigInt(4));
+
+  two.add(BigInt(3));
+  assert.equal(one.get(), BigInt(2));
+  assert.equal(two.get(), BigInt(5));
+  assert.equal(three.get(), BigInt(7));
+});
+
+test("Workers have separate state", async () => {
+  const first = await counters("worker-2");
+  const second = await counters("worker-3");
+
+  first.three.add(BigInt(1));
+  second.three.add(BigInt(10));
+  assert.equal(first.three.get(), BigInt(1));
+  assert.equal(second.three.get(), BigInt(10));
+});
+
+test("Calling a worker which was not created fails", async () => {
+  const one = await harness.worker("component-one", "worker-4");
+  assert.throws(() => one.api<CounterApi>("component-one-api").add(BigInt(1)), /worker-4 does not exist/);
+});
+
+test("Entries are logged with the worker name and fields above the configured level", async () => {
+  const harness = new TestHarness({ env: { LOG_LEVEL: "debug" } });
+  const three = await harness.worker("component-three", "worker-5");
+  const one = await harness.worker("component-one", "worker-5", { env: { LOG_LEVEL: "warn" } });
+  const two = await harness.worker("component-two", "worker-5");
+
+  three.api<CounterApi>("component-three-api").add(BigInt(2));
+  assert.deepEqual(
+    three.logs.map((entry) => [entry.level, entry.context]),
+    [
+      ["info", "component-three"],
+      ["info", "trace"],
+    ],
+  );
+  assert.match(
+    three.logs[0]!.message,
+    /^Adding to the counter worker=worker-5 trace=[0-9a-f]{32} span=[0-9a-f]{16} value=2$/,
+  );
+
+  one.api<CounterApi>("component-one-api").add(BigInt(1));
+  assert.deepEqual(one.logs, []);
+  const twoLogs = two.logs.filter((entry) => entry.context !== "trace");
+  assert.deepEqual(
+    twoLogs.map((entry) => entry.level),
+    ["info", "debug"],
+  );
+  assert.match(
+    twoLogs[1]!.message,
+    /^Calling component three worker=worker-5 trace=\S+ span=\S+ urn=urn:worker:[0-9a-f-]+\/worker-5$/,
+  );
+});
+
+test("Calls are traced across components", async () => {
+  const workers = [
+    await harness.worker("component-one", "worker-6"),
+    await harness.worker("component-two", "worker-6"),
+    await harness.worker("component-three", "worker-6"),
+  ];
+
+  const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+  workers[0]!.api<CounterApi>("component-one-api").add(BigInt(1), undefined, `00-${traceId}-00f067aa0ba902b7-01`);
+
+  const spans = parseTraceSpans(workers.flatMap((worker) => worker.logs.map((entry) => entry.message)));
+  assert.ok(spans.every((span) => span.traceId === traceId && span.status === "ok"));
+
+  const roots = traceTrees(spans);
+  assert.equal(roots.length, 1);
+  assert.equal(roots[0]!.span.parentSpanId, "00f067aa0ba902b7");
+  const names = (node: TraceNode, depth: number): string[] => [
+    `${"  ".repeat(depth)}${node.span.name}`,
+    ...node.children.flatMap((child) => names(child, depth + 1)),
+  ];
+  assert.deepEqual(names(roots[0]!, 0), [
+    "component-one.add",
+    "  call component-two.add",
+    "    component-two.add",
+    "      call component-three.add",
+    "        component-three.add",
+    "  call component-three.add",
+    "    component-three.add",
+  ]);
+});
+
+test("Durability settings of the fan-out are restored, also when it fails", async () => {
+  const one = await harness.worker("component-one", "worker-7");
+  await harness.worker("component-two", "worker-7");
+  await harness.worker("component-three", "worker-7");
+
+  one.api<CounterApi>("component-one-api").add(BigInt(1));
+  assert.deepEqual(one.retryPolicy, defaultRetryPolicy);
+  // Begin and end of the atomic region
+  assert.equal(one.oplogIndex, BigInt(2));
+
+  const failing = await harness.worker("component-one", "worker-8");
+  assert.throws(() => failing.api<CounterApi>("component-one-api").add(BigInt(1)), /worker-8 does not exist/);
+  assert.deepEqual(failing.retryPolicy, defaultRetryPolicy);
+  assert.equal(failing.oplogIndex, BigInt(2));
+});
+
+test("Adds repeated with the same idempotency key are applied once", async () => {
+  const { one, two, three } = await counters("worker-9");
+
+  assert.equal(two.add(BigInt(2), "key-1"), BigInt(2));
+  assert.equal(two.add(BigInt(2), "key-1"), BigInt(2));
+  assert.equal(three.get(), BigInt(2));
+  assert.equal(three.add(BigInt(1), "key-1"), BigInt(3));
+  assert.equal(three.add(BigInt(1)), BigInt(4));
+  assert.equal(three.add(BigInt(1)), BigInt(5));
+
+  assert.equal(one.add(BigInt(10), "key-1"), BigInt(10));
+  assert.equal(one.add(BigInt(10), "key-1"), BigInt(10));
+  assert.equal(two.get(), BigInt(12));
+  assert.equal(three.get(), BigInt(25));
+});
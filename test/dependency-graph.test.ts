@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { DependencyGraph } from "../src/build-tools/dependency-graph";
+
+const nodes = ["component-one", "component-two", "component-three", "component-four"];
+
+test("Topological order puts dependencies first", () => {
+  const graph = new DependencyGraph(nodes, {
+    "component-one": ["component-two", "component-three"],
+    "component-two": ["component-three"],
+  });
+
+  assert.deepEqual(graph.topologicalOrder(), ["component-four", "component-three", "component-two", "component-one"]);
+});
+
+test("Cycles are reported with their path", () => {
+  const graph = new DependencyGraph(nodes, {
+    "component-one": ["component-two"],
+    "component-two": ["component-three"],
+    "component-three": ["component-one"],
+  });
+
+  assert.deepEqual(graph.findCycle(), ["component-one", "component-two", "component-three", "component-one"]);
+  assert.throws(
+    () => graph.topologicalOrder(),
+    /Circular component dependency: component-one -> component-two -> component-three -> component-one/,
+  );
+});
+
+test("Unknown components are rejected", () => {
+  assert.throws(
+    () => new DependencyGraph(nodes, { "component-one": ["component-five"] }),
+    /Component component-one depends on unknown component: component-five/,
+  );
+});
+
+test("Graph is formatted as tree", () => {
+  const graph = new DependencyGraph(nodes, {
+    "component-one": ["component-two", "component-three"],
+    "component-two": ["component-three"],
+  });
+
+  assert.equal(
+    graph.format("tree"),
+    ["component-four", "component-one", "├── component-two", "│   └── component-three", "└── component-three"].join(
+      "\n",
+    ),
+  );
+});
@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { DeployState } from "../src/build-tools/deploy-state";
+
+const deployed = { wasmHash: "hash", componentUrn: "urn:component:1", componentVersion: 0 };
+
+test("Deploy state is persisted for the same target", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "deploy-state-"));
+  try {
+    const statePath = path.join(dir, "deploy-state.json");
+
+    new DeployState(statePath, "profile:default").set("component-one", deployed);
+
+    assert.deepEqual(new DeployState(statePath, "profile:default").get("component-one"), deployed);
+    assert.equal(new DeployState(statePath, "profile:cloud").get("component-one"), undefined);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("Deploy state without path is only kept in memory", () => {
+  const state = new DeployState(undefined, "local");
+  state.set("component-one", deployed);
+
+  assert.deepEqual(state.get("component-one"), deployed);
+  assert.equal(new DeployState(undefined, "local").get("component-one"), undefined);
+});
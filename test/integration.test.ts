@@ -1,154 +1,50 @@
-import { test } from "node:test";
+import { after, test } from "node:test";
 import * as assert from "node:assert";
-import { run, runCapture } from "../src/lib/process";
-import { randomUUID } from "node:crypto";
+import { GolemTestClient } from "../src/testing/golem-client";
+import { ComponentOneWorker } from "./generated/component-one";
+import { ComponentTwoWorker } from "./generated/component-two";
+import { ComponentThreeWorker } from "./generated/component-three";
 
-test("Project is deployed", async () => {
-  const componentOneMeta = await getComponentMeta("component-one");
-  console.log(componentOneMeta);
-  assert.ok(componentOneMeta);
-  assert.ok(componentOneMeta["componentUrn"]);
+const golem = new GolemTestClient();
 
-  const componentTwoMeta = await getComponentMeta("component-two");
-  console.log(componentTwoMeta);
-  assert.ok(componentTwoMeta);
-  assert.ok(componentTwoMeta["componentUrn"]);
+after(() => golem.cleanup());
 
-  const componentThreeMeta = await getComponentMeta("component-three");
-  console.log(componentThreeMeta);
-  assert.ok(componentThreeMeta);
-  assert.ok(componentThreeMeta["componentUrn"]);
+test("Project is deployed", async () => {
+  for (const compName of ["component-one", "component-two", "component-three"]) {
+    const componentMeta = await golem.componentMetadata(compName);
+    console.log(componentMeta);
+    assert.ok(componentMeta["componentUrn"]);
+  }
 });
 
 test("Calling add on component one calls other components", async () => {
   // Setup
-  const workerName = randomUUID();
+  const workerName = golem.uniqueWorkerName();
   console.log(`Random worker name: ${workerName}`);
 
-  const componentURNs = await getComponentURNs();
-  console.log("Component URNs:", componentURNs);
+  const one = (await golem.addWorker(ComponentOneWorker, workerName)).componentOneApi;
+  const two = (await golem.addWorker(ComponentTwoWorker, workerName)).componentTwoApi;
+  // Created by the first invocation
+  const three = golem.worker(ComponentThreeWorker, workerName).componentThreeApi;
 
-  await addWorker("component-one", workerName, componentURNs);
-  await addWorker("component-two", workerName, componentURNs);
+  const counters = async () => [await one.get(), await two.get(), await three.get()];
 
   // Check initial counter values
-  assert.equal(await invokeWorkerGet("component-one", workerName), 0);
-  assert.equal(await invokeWorkerGet("component-two", workerName), 0);
-  assert.equal(await invokeWorkerGet("component-three", workerName), 0);
+  assert.deepEqual(await counters(), [BigInt(0), BigInt(0), BigInt(0)]);
 
   // Call add on component-one and check counter values
-  await invokeWorkerAdd("component-one", workerName, 2);
-  assert.equal(await invokeWorkerGet("component-one", workerName), 2);
-  assert.equal(await invokeWorkerGet("component-two", workerName), 2);
-  assert.equal(await invokeWorkerGet("component-three", workerName), 4);
+  await one.add(BigInt(2));
+  assert.deepEqual(await counters(), [BigInt(2), BigInt(2), BigInt(4)]);
 
   // Call add on component-two and check counter values
-  await invokeWorkerAdd("component-two", workerName, 3);
-  assert.equal(await invokeWorkerGet("component-one", workerName), 2);
-  assert.equal(await invokeWorkerGet("component-two", workerName), 5);
-  assert.equal(await invokeWorkerGet("component-three", workerName), 7);
+  await two.add(BigInt(3));
+  assert.deepEqual(await counters(), [BigInt(2), BigInt(5), BigInt(7)]);
 
   // Call add on component-three and check counter values
-  await invokeWorkerAdd("component-three", workerName, 1);
-  assert.equal(await invokeWorkerGet("component-one", workerName), 2);
-  assert.equal(await invokeWorkerGet("component-two", workerName), 5);
-  assert.equal(await invokeWorkerGet("component-three", workerName), 8);
+  await three.add(BigInt(1));
+  assert.deepEqual(await counters(), [BigInt(2), BigInt(5), BigInt(8)]);
 
   // Call add on component-one and check counter values
-  await invokeWorkerAdd("component-one", workerName, 1);
-  assert.equal(await invokeWorkerGet("component-one", workerName), 3);
-  assert.equal(await invokeWorkerGet("component-two", workerName), 6);
-  assert.equal(await invokeWorkerGet("component-three", workerName), 10);
+  await one.add(BigInt(1));
+  assert.deepEqual(await counters(), [BigInt(3), BigInt(6), BigInt(10)]);
 });
-
-async function getComponentMeta(compName: string) {
-  const result = await runCapture("golem-cli", ["--format", "json", "component", "get", "--component-name", compName]);
-
-  if (result.code !== 0) {
-    process.stdout.write(result.stdout);
-    process.stderr.write(result.stderr);
-    throw new Error(`component get for ${compName} failed with code ${result.code}`);
-  }
-
-  return JSON.parse(result.stdout);
-}
-
-interface ComponentURNs {
-  componentOne: string;
-  componentTwo: string;
-  componentThree: string;
-}
-
-async function getComponentURNs(): Promise<ComponentURNs> {
-  return {
-    componentOne: (await getComponentMeta("component-one"))["componentUrn"],
-    componentTwo: (await getComponentMeta("component-two"))["componentUrn"],
-    componentThree: (await getComponentMeta("component-three"))["componentUrn"],
-  };
-}
-
-function componentIdFromURN(compURN: string) {
-  return compURN.split(":")[2] as string;
-}
-
-async function addWorker(compName: string, workerName: string, componentURNs: ComponentURNs) {
-  console.log(`Adding worker: ${compName}, ${workerName}`);
-  return run("golem-cli", [
-    "worker",
-    "--format",
-    "json",
-    "add",
-    "--component-name",
-    compName,
-    "--worker-name",
-    workerName,
-    "--env",
-    `COMPONENT_ONE_ID=${componentIdFromURN(componentURNs.componentOne)}`,
-    "--env",
-    `COMPONENT_TWO_ID=${componentIdFromURN(componentURNs.componentTwo)}`,
-    "--env",
-    `COMPONENT_THREE_ID=${componentIdFromURN(componentURNs.componentThree)}`,
-  ]);
-}
-
-async function invokeAndAwaitWorker(
-  compName: string,
-  workerName: string,
-  functionName: string,
-  functionArgs: string[],
-) {
-  console.log(`Invoking worker: ${compName}, ${workerName}, ${functionName}, ${functionArgs}`);
-
-  const result = await runCapture("golem-cli", [
-    "--format",
-    "json",
-    "worker",
-    "invoke-and-await",
-    "--component-name",
-    compName,
-    "--worker-name",
-    workerName,
-    "--function",
-    functionName,
-    ...functionArgs.flatMap((arg) => ["--arg", arg]),
-  ]);
-
-  if (result.code !== 0) {
-    process.stdout.write(result.stdout);
-    process.stderr.write(result.stderr);
-    throw new Error(`invoke and await worker failed with code ${result.code}`);
-  }
-
-  console.log(result.stdout);
-
-  return JSON.parse(result.stdout);
-}
-
-async function invokeWorkerGet(compName: string, workerName: string) {
-  const result = await invokeAndAwaitWorker(compName, workerName, `golem:${compName}/${compName}-api.{get}`, []);
-  return result["value"][0] as number;
-}
-
-async function invokeWorkerAdd(compName: string, workerName: string, value: number) {
-  await invokeAndAwaitWorker(compName, workerName, `golem:${compName}/${compName}-api.{add}`, [value.toString()]);
-}
@@ -0,0 +1,90 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { parseWitInterfaces, WitFunction } from "../src/build-tools/wit";
+import { formatWave, fromJson, fromWitValue, parseWave, toJson, toWitValue } from "../src/local-golem/values";
+
+const [api] = parseWitInterfaces(`
+package golem:test;
+
+interface api {
+  enum color { red, light-green }
+  flags permissions { read, write }
+  record item {
+    name: string,
+    amount: u64,
+    color: color,
+  }
+  variant event {
+    added(item),
+    cleared,
+  }
+
+  apply: func(events: list<event>, permissions: permissions) -> result<option<item>, string>;
+}
+`);
+
+function apply(): WitFunction {
+  const fn = api?.functions.find((fn) => fn.name === "apply");
+  assert.ok(fn);
+  return fn;
+}
+
+test("WIT interfaces are parsed with resolved types", () => {
+  const fn = apply();
+  assert.equal(api?.name, "api");
+  assert.deepEqual(
+    fn.params.map((param) => param.name),
+    ["events", "permissions"],
+  );
+  assert.deepEqual(fn.params[1]?.type, { kind: "flags", name: "permissions", flags: ["read", "write"] });
+  assert.deepEqual(fn.result, {
+    kind: "result",
+    ok: {
+      kind: "option",
+      inner: {
+        kind: "record",
+        name: "item",
+        fields: [
+          { name: "name", type: { kind: "string" } },
+          { name: "amount", type: { kind: "u64" } },
+          { name: "color", type: { kind: "enum", name: "color", cases: ["red", "light-green"] } },
+        ],
+      },
+    },
+    err: { kind: "string" },
+  });
+});
+
+test("WAVE arguments are parsed to the jco representation and formatted back", () => {
+  const [events, permissions] = apply().params.map((param) => param.type);
+  assert.ok(events && permissions);
+
+  const wave = `[added({name: "a \\"b\\"", amount: 18446744073709551615, color: light-green}), cleared]`;
+  const value = parseWave(wave, events);
+  assert.deepEqual(value, [
+    { tag: "added", val: { name: 'a "b"', amount: 18446744073709551615n, color: "light-green" } },
+    { tag: "cleared", val: undefined },
+  ]);
+  assert.equal(formatWave(value, events), wave);
+
+  assert.deepEqual(parseWave("{write}", permissions), { read: false, write: true });
+  assert.throws(() => parseWave('[added({name: "a", amount: -1, color: red})]', events), /-1/);
+});
+
+test("Results are converted to and from the golem-cli JSON format and WitValue", () => {
+  const result = apply().result;
+  assert.ok(result);
+
+  const value = { tag: "ok", val: { name: "a", amount: 2n ** 60n, color: "red" } };
+  assert.deepEqual(toJson(value, result), { ok: { name: "a", amount: "1152921504606846976", color: "red" } });
+  assert.deepEqual(toJson({ tag: "ok", val: undefined }, result), { ok: null });
+  assert.deepEqual(toJson({ tag: "err", val: "failed" }, result), { err: "failed" });
+  assert.deepEqual(fromJson(toJson(value, result), result), value);
+  assert.throws(() => fromJson({ ok: { name: "a", amount: 1, color: "blue" } }, result), /Expected color/);
+
+  assert.deepEqual(fromWitValue(toWitValue(value, result), result), value);
+  assert.deepEqual(fromWitValue(toWitValue({ tag: "err", val: "failed" }, result), result), {
+    tag: "err",
+    val: "failed",
+  });
+});
@@ -0,0 +1,25 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import path from "node:path";
+import { checkScopedImport, PackageScope } from "../src/build-tools/package-scope";
+
+test("Components can only import their own sources, declared packages and node_modules", () => {
+  const scope: PackageScope = {
+    compName: "component-one",
+    componentDir: path.join("src", "components", "component-one"),
+    packages: { rpc: path.join("src", "lib", "rpc.ts") },
+    projectPackages: { rpc: path.join("src", "lib", "rpc.ts"), utils: path.join("src", "packages", "utils") },
+    common: [path.join("src", "lib", "cfg.ts")],
+  };
+  const importer = path.resolve("src", "components", "component-one", "main.ts");
+  const check = (...id: string[]) => checkScopedImport(scope, path.resolve(...id), importer);
+
+  assert.equal(check("src", "components", "component-one", "generated", "cfg.ts"), undefined);
+  assert.equal(check("src", "lib", "cfg.ts"), undefined);
+  assert.equal(check("src", "lib", "rpc.ts"), undefined);
+  assert.equal(check("node_modules", "@golemcloud", "golem-ts", "dist", "index.mjs"), undefined);
+
+  assert.match(check("src", "packages", "utils", "strings.ts")!, /from package utils, which is not declared/);
+  assert.match(check("src", "lib", "process.ts")!, /imports src\/lib\/process.ts, which is not part of any package/);
+  assert.match(check("src", "components", "component-two", "main.ts")!, /not part of any package/);
+});
@@ -0,0 +1,54 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import fs from "node:fs";
+import os from "node:os";
+import { ProcessError, run, runCapture, runOutput } from "../src/lib/process";
+
+function node(script: string): [string, string[]] {
+  return [process.execPath, ["-e", script]];
+}
+
+test("Output, input, cwd and env are passed to the process", async () => {
+  const [command, args] = node(
+    "process.stdin.on('data', (d) => process.stdout.write(`${d}:${process.cwd()}:${process.env.TEST_VALUE}`))",
+  );
+  const output = await runOutput(command, args, { input: "input", cwd: os.tmpdir(), env: { TEST_VALUE: "value" } });
+
+  assert.equal(output, `input:${fs.realpathSync(os.tmpdir())}:value`);
+});
+
+test("Failures are thrown with the captured output", async () => {
+  const [command, args] = node("console.log('out'); console.error('err'); process.exit(3)");
+
+  assert.equal((await runCapture(command, args)).code, 3);
+  await assert.rejects(
+    () => runOutput(command, args),
+    (error) =>
+      error instanceof ProcessError &&
+      error.failure === "exit" &&
+      error.code === 3 &&
+      /failed with exit code 3:\nout\nerr$/.test(error.message),
+  );
+});
+
+test("Process trees are killed on timeout and abort", { skip: process.platform === "win32" }, async () => {
+  // The child starts a grandchild, which would keep the output pipes open if only the child was killed
+  const [command, args] = node(
+    "require('child_process').spawn(process.execPath, ['-e', 'setTimeout(() => {}, 60000)'], { stdio: 'inherit' }); setTimeout(() => {}, 60000)",
+  );
+
+  const started = Date.now();
+  await assert.rejects(
+    () => runCapture(command, args, { timeout: 500 }),
+    (error) => error instanceof ProcessError && error.failure === "timeout",
+  );
+
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 500);
+  await assert.rejects(
+    () => run(command, args, { signal: controller.signal }),
+    (error) => error instanceof ProcessError && error.failure === "aborted",
+  );
+
+  assert.ok(Date.now() - started < 10000);
+});
@@ -0,0 +1,97 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { TestHarness } from "../src/testing/harness";
+import { Pollable } from "../src/testing/host";
+import { parseTraceSpans } from "../src/build-tools/traces";
+import type { RemoteFuture } from "../src/lib/rpc";
+
+const harness = new TestHarness();
+const worker = await harness.worker("component-three", "rpc");
+// Imported after creating the harness, which resolves the host interfaces used by the library
+const rpc = await import("../src/lib/rpc");
+
+// Future of a remote call finishing after the delay, or never, which records whether it was dropped
+function future<T>(delayMs: number | undefined, get: () => T) {
+  const deadline =
+    delayMs !== undefined
+      ? process.hrtime.bigint() + BigInt(delayMs) * BigInt(1_000_000)
+      : BigInt(Number.MAX_SAFE_INTEGER);
+  return {
+    dropped: false,
+    subscribe: () => new Pollable(deadline),
+    get,
+    [Symbol.dispose]() {
+      this.dropped = true;
+    },
+  };
+}
+
+function spanStatuses(): string[] {
+  const spans = parseTraceSpans(worker.logs.splice(0).map((entry) => entry.message));
+  return spans.map((span) => `${span.name}: ${span.status}`).sort();
+}
+
+test("awaitAll returns the results in the order of the calls", () => {
+  const slow = future(50, () => "slow");
+  const fast = future(0, () => BigInt(1));
+  const unit = future(0, () => undefined);
+
+  const results = worker.run(() =>
+    rpc.awaitAll([rpc.call("slow", () => slow), rpc.call("fast", () => fast), rpc.call("unit", () => unit)]),
+  );
+  assert.deepEqual(results, [
+    { ok: true, value: "slow" },
+    { ok: true, value: BigInt(1) },
+    { ok: true, value: undefined },
+  ]);
+  assert.ok(slow.dropped && fast.dropped && unit.dropped);
+  assert.deepEqual(spanStatuses(), ["call fast: ok", "call slow: ok", "call unit: ok"]);
+});
+
+test("awaitAll fails the calls which do not finish in time", () => {
+  const hanging = future(undefined, () => "late");
+  const finished = future(0, () => "finished");
+
+  const [timedOut, ok] = worker.run(() =>
+    rpc.awaitAll([
+      rpc.call("hanging", () => hanging, { timeoutMs: 20 }),
+      rpc.call("finished", () => finished, { timeoutMs: 1000 }),
+    ]),
+  );
+  assert.ok(!timedOut.ok);
+  assert.ok(timedOut.error instanceof rpc.RpcTimeoutError);
+  assert.match(timedOut.error.message, /RPC call hanging failed: timed out after 20 ms/);
+  assert.deepEqual(ok, { ok: true, value: "finished" });
+  assert.ok(hanging.dropped);
+  assert.deepEqual(spanStatuses(), ["call finished: ok", "call hanging: error"]);
+});
+
+test("awaitAll reports errors of starting the calls and getting their results", () => {
+  const finished = future(0, () => "finished");
+  const failing = future(0, () => {
+    throw new Error("connection lost");
+  });
+
+  const [notStarted, failed, ok] = worker.run(() =>
+    rpc.awaitAll([
+      rpc.call("not-started", (): RemoteFuture<string> => {
+        throw new Error("unknown worker");
+      }),
+      rpc.call("failing", () => failing),
+      rpc.call("finished", () => finished),
+    ]),
+  );
+  assert.ok(!notStarted.ok);
+  assert.ok(notStarted.error instanceof rpc.RpcError);
+  assert.equal(notStarted.error.message, "RPC call not-started failed: unknown worker");
+  assert.ok(!failed.ok);
+  assert.ok(failed.error instanceof rpc.RpcError);
+  assert.equal(failed.error.message, "RPC call failing failed: connection lost");
+  assert.deepEqual(ok, { ok: true, value: "finished" });
+  assert.deepEqual(spanStatuses(), ["call failing: error", "call finished: ok", "call not-started: error"]);
+
+  assert.throws(
+    () => worker.run(() => rpc.awaitAllOrThrow([rpc.call("failing", () => future(0, failing.get))])),
+    /RPC call failing failed: connection lost/,
+  );
+});
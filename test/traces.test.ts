@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import * as assert from "node:assert";
+import { formatTraceTrees, parseTraceSpan, traceTrees } from "../src/build-tools/traces";
+
+const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+
+function spanLine(span: string, parent: string | undefined, name: string, start: number, extra = "") {
+  const parentField = parent !== undefined ? ` parent=${parent}` : "";
+  // Names with spaces are quoted, the same way as by the logger of the components
+  const nameField = name.includes(" ") ? JSON.stringify(name) : name;
+  return `trace-span worker=worker-1 trace=${traceId} span=${span}${parentField} name=${nameField} start=${start} durationMs=2 status=ok${extra}`;
+}
+
+test("Span entries are parsed from log messages and prefixed output lines", () => {
+  assert.deepEqual(parseTraceSpan(spanLine("00f067aa0ba902b7", undefined, "component-one.add", 1000)), {
+    traceId,
+    spanId: "00f067aa0ba902b7",
+    name: "component-one.add",
+    worker: "worker-1",
+    start: 1000,
+    durationMs: 2,
+    status: "ok",
+  });
+
+  const failed = parseTraceSpan(
+    `[warn] trace: ${spanLine("00f067aa0ba902b7", "b7ad6b7169203331", "call component-two.add", 1000)} error="RPC call failed"`,
+  );
+  assert.equal(failed?.parentSpanId, "b7ad6b7169203331");
+  assert.equal(failed?.error, "RPC call failed");
+
+  assert.equal(parseTraceSpan("Adding to the counter worker=worker-1 value=2"), undefined);
+});
+
+test("Spans are arranged into call trees ordered by start time", () => {
+  const spans = [
+    spanLine("0000000000000003", "0000000000000001", "call component-three.add", 1005),
+    spanLine("0000000000000001", undefined, "component-one.add", 1000),
+    spanLine("0000000000000002", "0000000000000001", "call component-two.add", 1001),
+    spanLine("0000000000000004", "0000000000000002", "component-two.add", 1002),
+  ].map((line) => parseTraceSpan(line)!);
+
+  const roots = traceTrees(spans);
+  assert.equal(roots.length, 1);
+  assert.deepEqual(
+    roots[0]!.children.map((child) => child.span.name),
+    ["call component-two.add", "call component-three.add"],
+  );
+
+  const lines = formatTraceTrees(roots);
+  assert.equal(lines[0], `Trace ${traceId} (1970-01-01T00:00:01.000Z)`);
+  assert.match(lines[5]!, /^ {6}component-two\.add +worker-1 +\+2 ms +2 ms +ok$/);
+});